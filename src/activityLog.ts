@@ -0,0 +1,180 @@
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+/*
+ * Machine-readable activity log.
+ *
+ * Every event Foam Central writes into the notes as Markdown is also appended
+ * as one JSON object per line to <notesRoot>/.foam-central/events/YYYY-MM.jsonl.
+ * Reports and views should read events through readActivityEvents() instead of
+ * scraping the daily notes.
+ */
+
+export const ACTIVITY_EVENT_SCHEMA_VERSION = 1;
+
+export type ActivityEventKind =
+  | 'OPEN'
+  | 'CLOSE'
+  | 'COMMIT'
+  | 'PULL'
+  | 'MERGE'
+  | 'CHECKOUT'
+  | 'REWRITE'
+  | 'TAG'
+  | 'PUSH'
+  | 'STASH'
+  | 'UPDATE'      // older logs only
+  | 'NOTE';
+
+export interface ActivityEvent {
+  schemaVersion: number;
+  timestamp: string;            // ISO 8601, UTC
+  kind: ActivityEventKind;
+  projectSlug: string;
+  projectPath: string;
+  branch: string | null;
+  hash: string | null;
+  ahead: number | null;
+  behind: number | null;
+  tags: string[];
+  machine: string;
+  details: Record<string, string | number | boolean>;
+}
+
+/** What callers provide; the rest is filled in by appendActivityEvent(). */
+export type NewActivityEvent =
+  Pick<ActivityEvent, 'kind' | 'projectSlug' | 'projectPath'> &
+  Partial<Omit<ActivityEvent, 'schemaVersion' | 'kind' | 'projectSlug' | 'projectPath' | 'timestamp'>> & {
+    timestamp?: Date;
+  };
+
+export interface ActivityEventQuery {
+  from?: Date;                  // inclusive
+  to?: Date;                    // exclusive
+  kinds?: ActivityEventKind[];
+  projectSlug?: string;
+}
+
+export function getEventsDir(notesFolder: string): string {
+  return path.join(notesFolder, '.foam-central', 'events');
+}
+
+export async function appendActivityEvent(notesFolder: string, input: NewActivityEvent): Promise<ActivityEvent> {
+  const when = input.timestamp ?? new Date();
+  const event: ActivityEvent = {
+    schemaVersion: ACTIVITY_EVENT_SCHEMA_VERSION,
+    timestamp: when.toISOString(),
+    kind: input.kind,
+    projectSlug: input.projectSlug,
+    projectPath: input.projectPath,
+    branch: input.branch ?? null,
+    hash: input.hash ?? null,
+    ahead: input.ahead ?? null,
+    behind: input.behind ?? null,
+    tags: input.tags ?? [],
+    machine: input.machine ?? os.hostname(),
+    details: input.details ?? {}
+  };
+
+  const dir = getEventsDir(notesFolder);
+  await fsp.mkdir(dir, { recursive: true });
+  // One appendFile call per event keeps each line intact when several windows log at once.
+  await fsp.appendFile(path.join(dir, `${getMonthKey(when)}.jsonl`), JSON.stringify(event) + '\n', 'utf8');
+
+  return event;
+}
+
+/**
+ * Reads events from the monthly files that overlap the query, oldest first.
+ * Malformed lines (e.g. a half-synced file) are skipped.
+ */
+export async function readActivityEvents(
+  notesFolder: string,
+  query: ActivityEventQuery = {}
+): Promise<ActivityEvent[]> {
+  const dir = getEventsDir(notesFolder);
+
+  let names: string[];
+  try {
+    names = await fsp.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const fromKey = query.from ? getMonthKey(query.from) : undefined;
+  const toKey = query.to ? getMonthKey(query.to) : undefined;
+  const fromTime = query.from?.getTime();
+  const toTime = query.to?.getTime();
+
+  const result: ActivityEvent[] = [];
+
+  for (const name of names.sort()) {
+    const m = /^(\d{4}-\d{2})\.jsonl$/.exec(name);
+    if (!m) continue;
+    if (fromKey && m[1] < fromKey) continue;
+    if (toKey && m[1] > toKey) continue;
+
+    let content: string;
+    try {
+      content = await fsp.readFile(path.join(dir, name), 'utf8');
+    } catch {
+      continue;
+    }
+
+    for (const line of content.split(/\r?\n/)) {
+      const event = parseActivityEvent(line);
+      if (!event) continue;
+
+      const time = Date.parse(event.timestamp);
+      if (fromTime !== undefined && time < fromTime) continue;
+      if (toTime !== undefined && time >= toTime) continue;
+      if (query.kinds && !query.kinds.includes(event.kind)) continue;
+      if (query.projectSlug && event.projectSlug !== query.projectSlug) continue;
+
+      result.push(event);
+    }
+  }
+
+  return result.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/* ---------- internals ---------- */
+
+function getMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+}
+
+function parseActivityEvent(line: string): ActivityEvent | undefined {
+  const trimmed = line.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+
+  if (!raw || typeof raw !== 'object' || typeof raw.kind !== 'string' || typeof raw.timestamp !== 'string') {
+    return undefined;
+  }
+
+  // Newer schema versions stay readable as long as the v1 fields are present.
+  return {
+    schemaVersion: typeof raw.schemaVersion === 'number' ? raw.schemaVersion : ACTIVITY_EVENT_SCHEMA_VERSION,
+    timestamp: raw.timestamp,
+    kind: raw.kind,
+    projectSlug: String(raw.projectSlug ?? ''),
+    projectPath: String(raw.projectPath ?? ''),
+    branch: raw.branch ?? null,
+    hash: raw.hash ?? null,
+    ahead: typeof raw.ahead === 'number' ? raw.ahead : null,
+    behind: typeof raw.behind === 'number' ? raw.behind : null,
+    tags: Array.isArray(raw.tags) ? raw.tags.map(String) : [],
+    machine: String(raw.machine ?? ''),
+    details: raw.details && typeof raw.details === 'object' ? raw.details : {}
+  };
+}
@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PendingPull } from './syncConflicts';
+
+/*
+ * "Foam Central Sync Conflicts" explorer view: the notes that still conflict
+ * after a pull, each with keep ours / theirs / both actions. The view is only
+ * shown while there are conflicts (context key foamCentral.hasSyncConflicts).
+ */
+
+export interface SyncConflict {
+  repoRoot: string;
+  relativePath: string;   // relative to the repository root, with forward slashes
+  filePath: string;
+  pull: PendingPull;
+}
+
+export class ConflictTreeProvider implements vscode.TreeDataProvider<SyncConflict>, vscode.Disposable {
+  private conflicts: SyncConflict[] = [];
+  private readonly changeEmitter = new vscode.EventEmitter<SyncConflict | undefined>();
+
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  setConflicts(conflicts: SyncConflict[]): void {
+    this.conflicts = conflicts;
+    void vscode.commands.executeCommand('setContext', 'foamCentral.hasSyncConflicts', conflicts.length > 0);
+    this.changeEmitter.fire(undefined);
+  }
+
+  getConflicts(): SyncConflict[] {
+    return this.conflicts;
+  }
+
+  getTreeItem(conflict: SyncConflict): vscode.TreeItem {
+    const item = new vscode.TreeItem(path.posix.basename(conflict.relativePath), vscode.TreeItemCollapsibleState.None);
+    item.iconPath = new vscode.ThemeIcon('warning');
+    item.contextValue = 'foamCentralConflict';
+    item.description = path.posix.dirname(conflict.relativePath).replace(/^\.$/, '');
+    item.tooltip =
+      `${conflict.relativePath}\n` +
+      `Conflict from a ${conflict.pull ?? 'pull'}: ours is this machine's version, theirs the pulled one.`;
+    item.resourceUri = vscode.Uri.file(conflict.filePath);
+    item.command = {
+      command: 'vscode.open',
+      title: 'Open Note',
+      arguments: [vscode.Uri.file(conflict.filePath)]
+    };
+    return item;
+  }
+
+  getChildren(conflict?: SyncConflict): SyncConflict[] {
+    return conflict ? [] : this.conflicts;
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+/** The conflict a view command was invoked on, if any. */
+export function getConflictFromNode(node: unknown): SyncConflict | undefined {
+  const conflict = node as SyncConflict | undefined;
+  return conflict && typeof conflict.filePath === 'string' && typeof conflict.repoRoot === 'string'
+    ? conflict
+    : undefined;
+}
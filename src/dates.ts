@@ -0,0 +1,44 @@
+/* ---------- Date helpers ---------- */
+
+export interface WeekInfo {
+  year: number;
+  week: number;
+  weekStart: Date;
+}
+
+export function formatTime(date: Date): string {
+  const h = date.getHours().toString().padStart(2, '0');
+  const m = date.getMinutes().toString().padStart(2, '0');
+  return `${h}:${m}`;
+}
+
+export function toIsoDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+// ISO week: Monday-based
+export function getIsoWeekInfo(date: Date): WeekInfo {
+  const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  const dayNum = d.getUTCDay() || 7; // Mon=1..Sun=7
+
+  // Move to Thursday of this week (ISO trick)
+  d.setUTCDate(d.getUTCDate() + 4 - dayNum);
+
+  const year = d.getUTCFullYear();
+  const yearStart = new Date(Date.UTC(year, 0, 1));
+  const week = Math.ceil(((d.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+
+  // Now compute the Monday (week start)
+  const weekStart = new Date(d);
+  const wsDayNum = weekStart.getUTCDay() || 7;
+  weekStart.setUTCDate(weekStart.getUTCDate() - (wsDayNum - 1));
+
+  return { year, week, weekStart };
+}
+
+export function getDailyNoteSlug(date: Date): string {
+  const y = date.getFullYear();
+  const m = (date.getMonth() + 1).toString().padStart(2, '0');
+  const d = date.getDate().toString().padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
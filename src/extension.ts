@@ -4,7 +4,128 @@ import * as fs from 'fs';
 import * as fsp from 'fs/promises';
 import * as cp from 'child_process';
 import * as os from 'os';
-import * as https from 'https';
+import { NewActivityEvent, appendActivityEvent, readActivityEvents } from './activityLog';
+import { WeekInfo, formatTime, getDailyNoteSlug, getIsoWeekInfo, toIsoDate } from './dates';
+import {
+  DEFAULT_SLUG_FORMAT,
+  FLAT_PATH_PATTERN,
+  JournalLayout,
+  WEEKLY_PATH_PATTERN,
+  findDailyNotes,
+  fromFoamDailyNoteSettings,
+  getDailyNoteGlob,
+  getDailyNotePath,
+  getJournalRoot,
+  getJournalSlug,
+  getWeekFolder,
+  hasWeekFolders,
+  parseIsoDay,
+  readFrontMatter
+} from './journalLayout';
+import {
+  archiveCompletedTasks,
+  findSectionRange,
+  isTaskBlockComplete,
+  normalizeTaskText,
+  parseTaskBlocks,
+  prepareCarriedTask
+} from './tasks';
+import {
+  SectionInsertOptions,
+  getEntrySortKey,
+  insertEntriesIntoSection,
+  insertIntoSection,
+  planSectionInsert
+} from './markdownSections';
+import { TaskTreeProvider, getTaskFromNode, openTask, toggleTaskDone } from './taskView';
+import { ConflictTreeProvider, SyncConflict, getConflictFromNode } from './conflictView';
+import { SyncAttempt, SyncHistory, SyncHistoryTreeProvider } from './syncHistory';
+import {
+  StagingOptions,
+  StagingSelection,
+  getChangedNoteTitles,
+  selectChangesToCommit,
+  updateGitIgnore
+} from './notesStaging';
+import {
+  DEFAULT_GITHUB_API_URL,
+  DEFAULT_GITLAB_URL,
+  GitHubProvider,
+  GitLabProvider,
+  GiteaProvider,
+  RemoteProvider,
+  RemoteProviderError,
+  UrlRemoteProvider
+} from './remoteProviders';
+import {
+  CRYPT_FILTER_NAME,
+  ENCRYPTION_CONFIG_FILE,
+  NOTES_KEY_ENV,
+  createEncryptionConfig,
+  getCryptFilterConfig,
+  getEncryptedFilesFromAttributes,
+  getEncryptionAttributes,
+  hasEncryptionAttributes,
+  isEncryptedNote,
+  readEncryptionConfig,
+  unlockEncryptionConfig,
+  updateEncryptionAttributes,
+  writeNotesKeyFile
+} from './notesCrypto';
+import {
+  INDEX_FILE_NAME,
+  IndexSortMode,
+  IndexUpdateOptions,
+  getIndexSortMode,
+  getIndexedLinks,
+  readIndexEntries,
+  updateIndexContent
+} from './folderIndex';
+import {
+  ConflictChoice,
+  PullStrategy,
+  continuePendingPull,
+  getCheckoutFlag,
+  getPendingPull,
+  getUnionMergeAttributes,
+  listConflictedFiles,
+  resolveConflictMarkers,
+  updateGitAttributes
+} from './syncConflicts';
+import { TemplateVars, renderNoteTemplate, resolveTemplatesDir } from './templates';
+import {
+  BackfillRange,
+  collectRecordedHashes,
+  formatHistoricalDailyLine,
+  formatHistoricalVcsEntry,
+  listMissingCommits
+} from './vcsBackfill';
+import { CommitInfo, GitRunner, RepoSnapshot, shortHash, VcsChange, detectVcsChanges, formatDailyLine, formatVcsPageEntry, headChanged, readRefs } from './vcsEvents';
+import {
+  IssueReference,
+  IssueReferenceSetting,
+  IssueRule,
+  compileIssueRules,
+  findBranchIssueReferences,
+  findIssueReferences,
+  getIssueNoteName,
+  linkIssueReferences
+} from './issueRefs';
+import { holdsNotesLock, initWriteCoordinator, withNotesLock } from './writeCoordinator';
+import { ReportPeriod, generateTimeReport, getMonthReportPeriod, getWeekReportPeriod } from './reports';
+import {
+  HEARTBEAT_INTERVAL_MS,
+  SessionRecord,
+  closeAllSessionsSync,
+  endSession,
+  formatDuration,
+  heartbeat,
+  initSessionStore,
+  reconcileSessions,
+  renameSession,
+  setWorking,
+  startSession
+} from './sessions';
 
 interface ProjectInfo {
   name: string;       // project directory name (e.g. "story_engine2")
@@ -14,35 +135,19 @@ interface ProjectInfo {
   vcsPath: string;    // notes/projects/<slug>/vcs.md
 }
 
-interface VcsEvent {
-  branch: string;
-  message: string;
-  shortHash: string;
-  ahead: number;
-  behind: number;
-  tags: string[];
-  upstreamName: string;
-}
-
-interface GitHubRequestOptions {
-  method: 'GET' | 'POST' | 'HEAD';
-  path: string;
-  token: string;
-  body?: any;
-}
-
-interface WeekInfo {
-  year: number;
-  week: number;
-  weekStart: Date;
-}
-
 type GitAPI = {
   repositories: any[];
+  onDidOpenRepository: vscode.Event<any>;
+  onDidCloseRepository: vscode.Event<any>;
 };
 
-let currentProject: ProjectInfo | undefined;
+// Every non-notes workspace folder, keyed by normalized folder path
+const projects = new Map<string, ProjectInfo>();
+const projectGitWatchers = new Map<string, vscode.Disposable>();
 let dailyNoteTimer: NodeJS.Timeout | undefined;
+let sessionHeartbeatTimer: NodeJS.Timeout | undefined;
+let taskTreeProvider: TaskTreeProvider | undefined;
+let conflictTreeProvider: ConflictTreeProvider | undefined;
 let logChannel: vscode.OutputChannel;
 let notesGitRoot: string | undefined;
 let notesDirty = false;
@@ -50,7 +155,17 @@ let notesSaveCount = 0;
 let notesLastSyncTime = Date.now();
 let notesSyncInProgress = false;
 let notesSyncTimer: NodeJS.Timeout | undefined;
-const repoHeads = new Map<any, string | undefined>();
+let notesFetchTimer: NodeJS.Timeout | undefined;
+let notesAutoPullRun: Promise<void> | undefined;
+let notesAheadBehind: { ahead: number; behind: number; hasUpstream: boolean } | undefined;
+let notesLastSyncAt: Date | undefined;      // last successful push or pull, for the status bar
+let notesLastFetchAt: Date | undefined;
+let notesStatusBarItem: vscode.StatusBarItem | undefined;
+const notesLargeFilesWarned = new Set<string>();
+let notesEncryptionActive = false;    // enabled here, or encrypted notes in the repo's .gitattributes
+let notesCryptKey: Buffer | undefined;
+let syncHistory: SyncHistory | undefined;
+let syncHistoryTreeProvider: SyncHistoryTreeProvider | undefined;
 
 /* ---------- Small helpers ---------- */
 
@@ -58,6 +173,11 @@ function normalizePath(p: string): string {
   return path.resolve(p).replace(/\\/g, '/').toLowerCase();
 }
 
+// Both normalized with normalizePath()
+function isSameOrInside(child: string, parent: string): boolean {
+  return child === parent || child.startsWith(parent.endsWith('/') ? parent : parent + '/');
+}
+
 function getNotesFolder(): string | undefined {
   const config = vscode.workspace.getConfiguration('foamCentral');
   let folder = config.get<string>('notesFolder');
@@ -113,39 +233,14 @@ function getProjectNotesFolderName(): string {
   return folder && folder.trim().length > 0 ? folder.trim() : 'projects';
 }
 
-function formatTime(date: Date): string {
-  const h = date.getHours().toString().padStart(2, '0');
-  const m = date.getMinutes().toString().padStart(2, '0');
-  return `${h}:${m}`;
-}
-
-function toIsoDate(d: Date): string {
-  return d.toISOString().slice(0, 10);
-}
-
-// ISO week: Monday-based
-function getIsoWeekInfo(date: Date): WeekInfo {
-  const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
-  const dayNum = d.getUTCDay() || 7; // Mon=1..Sun=7
-
-  // Move to Thursday of this week (ISO trick)
-  d.setUTCDate(d.getUTCDate() + 4 - dayNum);
-
-  const year = d.getUTCFullYear();
-  const yearStart = new Date(Date.UTC(year, 0, 1));
-  const week = Math.ceil(((d.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
-
-  // Now compute the Monday (week start)
-  const weekStart = new Date(d);
-  const wsDayNum = weekStart.getUTCDay() || 7;
-  weekStart.setUTCDate(weekStart.getUTCDate() - (wsDayNum - 1));
-
-  return { year, week, weekStart };
-}
-
-function runGit(args: string[], cwd: string): Promise<{ stdout: string; stderr: string }> {
+function runGit(
+  args: string[],
+  cwd: string,
+  options: { env?: NodeJS.ProcessEnv; timeout?: number } = {}
+): Promise<{ stdout: string; stderr: string }> {
+  const env = options.env ? { ...process.env, ...options.env } : undefined;
   return new Promise((resolve, reject) => {
-    cp.execFile('git', args, { cwd }, (err, stdout, stderr) => {
+    cp.execFile('git', args, { cwd, env, timeout: options.timeout }, (err, stdout, stderr) => {
       if (err) {
         const e: any = err;
         e.stdout = stdout;
@@ -181,55 +276,9 @@ function findGitRoot(startPath: string): string | undefined {
   return undefined;
 }
 
-function githubRequest<T = any>(
-  options: GitHubRequestOptions
-): Promise<{ status: number; data: T | undefined }> {
-  return new Promise((resolve, reject) => {
-    const req = https.request(
-      {
-        hostname: 'api.github.com',
-        port: 443,
-        path: options.path,
-        method: options.method,
-        headers: {
-          'User-Agent': 'foam-central-extension',
-          'Accept': 'application/vnd.github+json',
-          'Authorization': `Bearer ${options.token}`,
-          ...(options.body ? { 'Content-Type': 'application/json' } : {})
-        }
-      },
-      res => {
-        const status = res.statusCode || 0;
-        const chunks: Buffer[] = [];
-
-        res.on('data', chunk => chunks.push(chunk));
-        res.on('end', () => {
-          const text = Buffer.concat(chunks).toString('utf8');
-          let json: any = undefined;
-          const contentType = res.headers['content-type'] || '';
-          if (text && typeof contentType === 'string' && contentType.includes('application/json')) {
-            try {
-              json = JSON.parse(text);
-            } catch {
-              // ignore parse errors, return undefined data
-            }
-          }
-          resolve({ status, data: json as T });
-        });
-      }
-    );
-
-    req.on('error', reject);
-
-    if (options.body) {
-      req.write(JSON.stringify(options.body));
-    }
-    req.end();
-  });
-}
-
 async function ensureWeeklyTodo(
-  journalsDir: string,
+  notesFolder: string,
+  layout: JournalLayout,
   weekDir: string,
   info: WeekInfo
 ): Promise<void> {
@@ -240,56 +289,212 @@ async function ensureWeeklyTodo(
   try {
     const existing = await fsp.readFile(todoPath, 'utf8');
     if (!existing.includes(weekStartStr)) {
-      const extra = `\n> Week start: ${weekStartStr}\n`;
-      await fsp.appendFile(todoPath, extra, 'utf8');
+      // At the end of the note's H1 section, whatever its title (templates may differ)
+      const heading = `# Week ${info.week.toString().padStart(2, '0')} (${weekStartStr})`;
+      await insertIntoNoteSection(todoPath, heading, [`> Week start: ${weekStartStr}`], {
+        otherTitles: () => true,
+        blankLineBetween: true
+      });
     }
     return;
   } catch {
     // todo.md doesn't exist yet: create a new one.
   }
 
-  // Collect carry-over tasks from previous week (unfinished: "- [ ] ..." lines)
-  const prevStart = new Date(info.weekStart);
-  prevStart.setUTCDate(prevStart.getUTCDate() - 1); // any day in previous week
-  const prevInfo = getIsoWeekInfo(prevStart);
-  const prevYearDir = path.join(journalsDir, String(prevInfo.year));
-  const prevWeekDirName = `week-${prevInfo.week.toString().padStart(2, '0')}`;
-  const prevWeekDir = path.join(prevYearDir, prevWeekDirName);
-  const prevTodoPath = path.join(prevWeekDir, 'todo.md');
+  // Carry over open tasks from the most recent earlier week that has notes
+  // (weeks without any, e.g. holidays, are skipped).
+  const previous = await findPreviousWeekFolder(notesFolder, layout, info, weekDir);
+  let carried: string[] = [];
+  let carriedFrom = 'previous week';
 
-  const carried: string[] = [];
-  try {
-    const prevContent = await fsp.readFile(prevTodoPath, 'utf8');
-    const lines = prevContent.split(/\r?\n/);
-    for (const line of lines) {
-      if (/^\s*-\s*\[\s*]\s+/.test(line)) {
-        carried.push(line);
+  if (previous) {
+    carried = await collectCarryOverTasks(notesFolder, layout, previous.dir);
+    if (previous.weeksBack > 1) {
+      carriedFrom = `week ${previous.week.toString().padStart(2, '0')}`;
+    }
+
+    // Completed tasks stay in the old week, under "## Done".
+    const archived = await rewriteFile(path.join(previous.dir, 'todo.md'), content =>
+      archiveCompletedTasks(content).content
+    );
+    if (archived) {
+      logChannel.appendLine(`ensureWeeklyTodo: archived completed tasks in ${previous.dir}`);
+    }
+  }
+
+  const vars: TemplateVars = {
+    ...buildDateTemplateVars(notesFolder, new Date(
+      info.weekStart.getUTCFullYear(),
+      info.weekStart.getUTCMonth(),
+      info.weekStart.getUTCDate()
+    )),
+    carried: carried.join('\n')
+  };
+
+  const content = await renderNoteTemplate(getTemplatesDir(notesFolder), 'weekly-todo', vars, () => {
+    const lines: string[] = [];
+    lines.push('---');
+    lines.push('type: weekly-todo');
+    lines.push(`year: ${info.year}`);
+    lines.push(`week: ${info.week}`);
+    lines.push(`start: ${weekStartStr}`);
+    lines.push('---', '');
+    lines.push(
+      `# Week ${info.week.toString().padStart(2, '0')} (${weekStartStr})`,
+      '',
+      '## TODO',
+      ''
+    );
+
+    if (carried.length > 0) {
+      lines.push(`### Carried over from ${carriedFrom}`, '');
+      lines.push(...carried, '');
+      lines.push('');
+    }
+    return lines.join('\n');
+  });
+
+  await fsp.writeFile(todoPath, content, { encoding: 'utf8' });
+}
+
+/* ---------- Journal layout ---------- */
+
+function getJournalLayout(notesFolder: string): JournalLayout {
+  const cfg = vscode.workspace.getConfiguration('foamCentral');
+
+  if (cfg.get<boolean>('journal.useFoamDailyNoteSettings')) {
+    const foamCfg = vscode.workspace.getConfiguration('foam.openDailyNote');
+    return fromFoamDailyNoteSettings(
+      notesFolder,
+      foamCfg.get<string>('directory'),
+      foamCfg.get<string>('filenameFormat'),
+      foamCfg.get<string>('fileExtension')
+    );
+  }
+
+  const pattern = (cfg.get<string>('journal.pathPattern') || '').trim();
+  const slugFormat = (cfg.get<string>('journal.slugFormat') || '').trim();
+  const groupByWeek = cfg.get<boolean>('journal.groupByWeek') ?? true;
+
+  return {
+    pathPattern: pattern || (groupByWeek ? WEEKLY_PATH_PATTERN : FLAT_PATH_PATTERN),
+    slugFormat: slugFormat || DEFAULT_SLUG_FORMAT
+  };
+}
+
+/* ---------- Templates ---------- */
+
+function getTemplatesDir(notesFolder: string): string {
+  const cfg = vscode.workspace.getConfiguration('foamCentral');
+  return resolveTemplatesDir(notesFolder, cfg.get<string>('templatesFolder'));
+}
+
+function buildDateTemplateVars(notesFolder: string, date: Date): TemplateVars {
+  const layout = getJournalLayout(notesFolder);
+  const weekInfo = getIsoWeekInfo(date);
+  const yesterday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1);
+
+  return {
+    date: getDailyNoteSlug(date),
+    slug: getJournalSlug(layout, date),
+    year: String(weekInfo.year),
+    week: weekInfo.week.toString().padStart(2, '0'),
+    weekStart: toIsoDate(weekInfo.weekStart),
+    weekday: date.toLocaleDateString('en-US', { weekday: 'long' }),
+    yesterday: getJournalSlug(layout, yesterday),
+    time: formatTime(date)
+  };
+}
+
+function buildProjectTemplateVars(info: ProjectInfo | undefined): TemplateVars {
+  if (!info) {
+    return { 'project.name': '', 'project.slug': '', 'project.path': '' };
+  }
+  return {
+    'project.name': info.name,
+    'project.slug': info.slug,
+    'project.path': info.path
+  };
+}
+
+// How far back to look for a previous week when carrying over tasks
+const MAX_WEEKS_BACK = 26;
+
+async function findPreviousWeekFolder(
+  notesFolder: string,
+  layout: JournalLayout,
+  info: WeekInfo,
+  currentWeekDir: string
+): Promise<{ dir: string; week: number; weeksBack: number } | undefined> {
+  for (let weeksBack = 1; weeksBack <= MAX_WEEKS_BACK; weeksBack++) {
+    // Sunday of the week `weeksBack` weeks ago
+    const day = new Date(
+      info.weekStart.getUTCFullYear(),
+      info.weekStart.getUTCMonth(),
+      info.weekStart.getUTCDate() - 7 * (weeksBack - 1) - 1
+    );
+    const dir = getWeekFolder(notesFolder, layout, day);
+    if (!dir || normalizePath(dir) === normalizePath(currentWeekDir)) continue;
+
+    try {
+      const names = await fsp.readdir(dir);
+      if (names.some(n => n.toLowerCase().endsWith('.md'))) {
+        return { dir, week: getIsoWeekInfo(day).week, weeksBack };
       }
+    } catch {
+      // week folder does not exist
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Open tasks (with nested children) from a week's todo.md and daily notes,
+ * de-duplicated, each with its carried marker bumped. A done task with open
+ * subtasks is carried with them.
+ */
+async function collectCarryOverTasks(notesFolder: string, layout: JournalLayout, weekDir: string): Promise<string[]> {
+  const carried: string[] = [];
+  const seen = new Set<string>();
+
+  const addOpenTasks = (content: string, sourceLink?: string) => {
+    const lines = content.split(/\r?\n/);
+    const done = findSectionRange(lines, 'Done');
+    for (const block of parseTaskBlocks(lines)) {
+      if (isTaskBlockComplete(block)) continue;
+      if (done && block.start >= done.start && block.start < done.end) continue;
+
+      const key = normalizeTaskText(block.text);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      carried.push(...prepareCarriedTask(block, sourceLink));
     }
+  };
+
+  try {
+    addOpenTasks(await fsp.readFile(path.join(weekDir, 'todo.md'), 'utf8'));
   } catch {
-    // no previous todo or unreadable: no carry-over
+    // no todo.md that week
   }
 
-  const lines: string[] = [];
-  lines.push('---');
-  lines.push(`year: ${info.year}`);
-  lines.push(`week: ${info.week}`);
-  lines.push(`start: ${weekStartStr}`);
-  lines.push('---', '');
-  lines.push(
-    `# Week ${info.week.toString().padStart(2, '0')} (${weekStartStr})`,
-    '',
-    '## TODO',
-    ''
-  );
+  let files: string[] = [];
+  try {
+    files = (await fsp.readdir(weekDir))
+      .filter(n => n.toLowerCase().endsWith('.md'))
+      .map(n => path.join(weekDir, n));
+  } catch {
+    return carried;
+  }
 
-  if (carried.length > 0) {
-    lines.push('### Carried over from previous week', '');
-    lines.push(...carried, '');
-    lines.push('');
+  for (const note of await findDailyNotes(layout, notesFolder, files)) {
+    try {
+      addOpenTasks(await fsp.readFile(note.filePath, 'utf8'), `[[${note.slug}]]`);
+    } catch {
+      // unreadable note: skip
+    }
   }
 
-  await fsp.writeFile(todoPath, lines.join('\n'), { encoding: 'utf8' });
+  return carried;
 }
 
 /* ---------- Command: create workspace for current folder ---------- */
@@ -351,64 +556,70 @@ async function createWorkspaceForCurrentFolder(): Promise<void> {
   }
 }
 
-/* ---------- Daily note (journals/YYYY-MM-DD.md) ---------- */
-
-function getDailyNoteSlug(date: Date): string {
-  const y = date.getFullYear();
-  const m = (date.getMonth() + 1).toString().padStart(2, '0');
-  const d = date.getDate().toString().padStart(2, '0');
-  return `${y}-${m}-${d}`;
-}
+/* ---------- Daily note (path from the journal layout) ---------- */
 
+/**
+ * Creates the daily note for `date` if it is missing, and its week's todo.md.
+ * Without `withWeeklyTodo` (notes for past days), only the daily note is created:
+ * a new todo.md carries over and archives tasks.
+ */
 async function ensureDailyNoteFile(
   notesFolder: string,
-  date: Date
+  date: Date,
+  withWeeklyTodo = true
 ): Promise<{ slug: string; uri: vscode.Uri }> {
-  const slug = getDailyNoteSlug(date);
-  const journalsDir = path.join(notesFolder, 'journals');
-  const cfg = vscode.workspace.getConfiguration('foamCentral');
-  const groupByWeek = cfg.get<boolean>('journal.groupByWeek') ?? true;
-
-  let filePath: string;
-  let weekInfo: WeekInfo | undefined;
-  let weekDir: string | undefined;
-
-  if (groupByWeek) {
-    weekInfo = getIsoWeekInfo(date);
-    const yearDir = path.join(journalsDir, String(weekInfo.year));
-    const weekDirName = `week-${weekInfo.week.toString().padStart(2, '0')}`;
-    weekDir = path.join(yearDir, weekDirName);
+  await pullBeforeNewDailyNote(notesFolder, date);
+  return withNotesLock('daily note', () => createDailyNoteIfMissing(notesFolder, date, withWeeklyTodo));
+}
 
+async function createDailyNoteIfMissing(
+  notesFolder: string,
+  date: Date,
+  withWeeklyTodo = true
+): Promise<{ slug: string; uri: vscode.Uri }> {
+  const layout = getJournalLayout(notesFolder);
+  const slug = getJournalSlug(layout, date);
+  const filePath = getDailyNotePath(notesFolder, layout, date);
+  const weekDir = getWeekFolder(notesFolder, layout, date);
+  const weekInfo = getIsoWeekInfo(date);
+
+  await fsp.mkdir(path.dirname(filePath), { recursive: true });
+  if (weekDir && withWeeklyTodo) {
     await fsp.mkdir(weekDir, { recursive: true });
-    await ensureWeeklyTodo(journalsDir, weekDir, weekInfo);
-
-    filePath = path.join(weekDir, `${slug}.md`);
-  } else {
-    await fsp.mkdir(journalsDir, { recursive: true });
-    filePath = path.join(journalsDir, `${slug}.md`);
+    await ensureWeeklyTodo(notesFolder, layout, weekDir, weekInfo);
   }
 
   try {
     await fsp.access(filePath);
   } catch {
-    const lines: string[] = [];
-    lines.push('---');
-    lines.push('type: daily-note');
-    lines.push(`date: ${slug}`);
-    if (groupByWeek && weekInfo) {
-      lines.push(`year: ${weekInfo.year}`);
-      lines.push(`week: ${weekInfo.week}`);
-      lines.push(`weekStart: ${toIsoDate(weekInfo.weekStart)}`);
-    }
-    lines.push('---', '');
-    lines.push(`# ${slug}`, '', '## Log', '');
-    await fsp.writeFile(filePath, lines.join('\n'), { encoding: 'utf8' });
+    // Daily notes are shared by all projects; the first one fills {{project.*}}.
+    const vars: TemplateVars = {
+      ...buildDateTemplateVars(notesFolder, date),
+      ...buildProjectTemplateVars(projects.values().next().value)
+    };
+
+    const content = await renderNoteTemplate(getTemplatesDir(notesFolder), 'daily-note', vars, () => {
+      const lines: string[] = [];
+      lines.push('---');
+      lines.push('type: daily-note');
+      lines.push(`date: ${getDailyNoteSlug(date)}`);
+      if (weekDir) {
+        lines.push(`year: ${weekInfo.year}`);
+        lines.push(`week: ${weekInfo.week}`);
+        lines.push(`weekStart: ${toIsoDate(weekInfo.weekStart)}`);
+      }
+      lines.push('---', '');
+      lines.push(`# ${slug}`, '', '## Log', '');
+      return lines.join('\n');
+    });
+    await fsp.writeFile(filePath, content, { encoding: 'utf8' });
   }
 
   return { slug, uri: vscode.Uri.file(filePath) };
 }
 
-async function openDailyNoteForToday(): Promise<{ slug: string; document: vscode.TextDocument } | undefined> {
+// Appends to today's daily note, or to the note for `date` when logging after the fact.
+async function appendToDailyNote(lines: string[], date: Date = new Date()): Promise<string | undefined> {
   const notesFolder = getNotesFolder();
   if (!notesFolder) {
     vscode.window.showErrorMessage(
@@ -416,38 +627,64 @@ async function openDailyNoteForToday(): Promise<{ slug: string; document: vscode
     );
     return undefined;
   }
-  const { slug, uri } = await ensureDailyNoteFile(notesFolder, new Date());
-  const doc = await vscode.workspace.openTextDocument(uri);
-  return { slug, document: doc };
-}
 
-async function appendToDailyNote(lines: string[]): Promise<string | undefined> {
-  const result = await openDailyNoteForToday();
-  if (!result) {
-    return undefined;
-  }
+  await pullBeforeNewDailyNote(notesFolder, date);
 
-  const { slug, document } = result;
-  const lastLine = document.lineAt(document.lineCount - 1);
-  const position = lastLine.range.end;
+  // Creating the note and adding the entry is one step for other windows.
+  return withNotesLock('daily note entry', async () => {
+    const { slug, uri } = await ensureDailyNoteFile(notesFolder, date);
+    const success = await insertIntoNoteSection(uri.fsPath, '## Log', lines);
+    if (!success) {
+      console.error('Foam Central: failed to apply edit to daily note');
+    }
+    return slug;
+  });
+}
 
-  const text = '\n' + lines.join('\n') + '\n';
+/**
+ * Inserts `entry` into a section of the note (in chronological order by
+ * default) under the notes write lock. If the note has unsaved changes in an
+ * editor the edit goes through that document so they are kept; otherwise the
+ * file on disk is updated, since another window may just have changed it.
+ */
+async function insertIntoNoteSection(
+  filePath: string,
+  heading: string,
+  entry: string[],
+  options: SectionInsertOptions = { sortKey: getEntrySortKey }
+): Promise<boolean> {
+  return withNotesLock(`insert into ${path.basename(filePath)}`, async () => {
+    const target = normalizePath(filePath);
+    const doc = vscode.workspace.textDocuments.find(
+      d => d.uri.scheme === 'file' && normalizePath(d.uri.fsPath) === target
+    );
 
-  const edit = new vscode.WorkspaceEdit();
-  edit.insert(document.uri, position, text);
-  const success = await vscode.workspace.applyEdit(edit);
-  if (success) {
-    await document.save();
-  } else {
-    console.error('Foam Central: failed to apply edit to daily note');
-  }
+    if (doc?.isDirty) {
+      const { offset, text } = planSectionInsert(doc.getText(), heading, entry, options);
+      const edit = new vscode.WorkspaceEdit();
+      edit.insert(doc.uri, doc.positionAt(offset), text);
+      if (!(await vscode.workspace.applyEdit(edit))) {
+        return false;
+      }
+      await doc.save();
+      return true;
+    }
 
-  return slug;
+    const content = await fsp.readFile(filePath, 'utf8');
+    await fsp.writeFile(filePath, insertIntoSection(content, heading, entry, options), { encoding: 'utf8' });
+    // Not a document save, so tell the notes auto-sync directly
+    notesDirty = true;
+    return true;
+  });
 }
 
 /* ---------- Project folder + home.md + vcs.md ---------- */
 
 async function ensureProjectFiles(notesFolder: string, info: ProjectInfo): Promise<void> {
+  await withNotesLock('project files', () => createProjectFilesIfMissing(notesFolder, info));
+}
+
+async function createProjectFilesIfMissing(notesFolder: string, info: ProjectInfo): Promise<void> {
   const projectRootInNotes = path.dirname(info.homePath);
 
   try {
@@ -457,12 +694,19 @@ async function ensureProjectFiles(notesFolder: string, info: ProjectInfo): Promi
     return;
   }
 
+  const templatesDir = getTemplatesDir(notesFolder);
+  const now = new Date();
+  const vars: TemplateVars = {
+    ...buildDateTemplateVars(notesFolder, now),
+    ...buildProjectTemplateVars(info),
+    created: now.toISOString()
+  };
+
   // home.md
   try {
     await fsp.access(info.homePath);
   } catch {
-    const now = new Date();
-    const contentLines = [
+    const content = await renderNoteTemplate(templatesDir, 'project-home', vars, () => [
       '---',
       'type: project',
       `name: ${info.name}`,
@@ -477,15 +721,15 @@ async function ensureProjectFiles(notesFolder: string, info: ProjectInfo): Promi
       '',
       '## Activity',
       ''
-    ];
-    await fsp.writeFile(info.homePath, contentLines.join('\n'), { encoding: 'utf8' });
+    ].join('\n'));
+    await fsp.writeFile(info.homePath, content, { encoding: 'utf8' });
   }
 
   // vcs.md
   try {
     await fsp.access(info.vcsPath);
   } catch {
-    const contentLines = [
+    const content = await renderNoteTemplate(templatesDir, 'project-vcs', vars, () => [
       '---',
       'type: project-vcs',
       `project: ${info.slug}`,
@@ -493,13 +737,27 @@ async function ensureProjectFiles(notesFolder: string, info: ProjectInfo): Promi
       '',
       `# VCS log for ${info.name}`,
       ''
-    ];
-    await fsp.writeFile(info.vcsPath, contentLines.join('\n'), { encoding: 'utf8' });
+    ].join('\n'));
+    await fsp.writeFile(info.vcsPath, content, { encoding: 'utf8' });
   }
   await maybeUpdateFolderIndexForFile(vscode.Uri.file(info.homePath));
   await maybeUpdateFolderIndexForFile(vscode.Uri.file(info.vcsPath))
 }
 
+/* ---------- Structured activity log (.foam-central/events) ---------- */
+
+async function recordActivity(event: NewActivityEvent): Promise<void> {
+  const notesFolder = getNotesFolder();
+  if (!notesFolder) return;
+
+  try {
+    await appendActivityEvent(notesFolder, event);
+  } catch (err) {
+    console.error('Foam Central: failed to append activity event', err);
+    logChannel.appendLine(`recordActivity failed for ${event.kind}: ${String(err)}`);
+  }
+}
+
 /* ---------- Logging project open ---------- */
 
 async function logProjectOpen(info: ProjectInfo): Promise<void> {
@@ -513,493 +771,2603 @@ async function logProjectOpen(info: ProjectInfo): Promise<void> {
   const dailySlug = await appendToDailyNote([dailyLine]);
   if (!dailySlug) return;
 
+  await recordActivity({
+    kind: 'OPEN',
+    timestamp: now,
+    projectSlug: info.slug,
+    projectPath: info.path
+  });
+
   try {
-    const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(info.homePath));
-    const text = `\n- [[${dailySlug}|${dateStr}]] opened at ${timeStr}\n`;
-    const edit = new vscode.WorkspaceEdit();
-    const lastLine = doc.lineAt(doc.lineCount - 1);
-    edit.insert(doc.uri, lastLine.range.end, text);
-    await vscode.workspace.applyEdit(edit);
-    await doc.save();
+    await insertIntoNoteSection(info.homePath, '## Activity', [`- [[${dailySlug}|${dateStr}]] opened at ${timeStr}`]);
   } catch (err) {
     console.error('Foam Central: failed to log open in home.md', err);
   }
 }
 
+/* ---------- Sessions (open / close / time spent) ---------- */
 
-/* ---------- Git integration ---------- */
-
-function getGitAPI(): GitAPI | undefined {
-  const gitExt = vscode.extensions.getExtension<any>('vscode.git');
-  const api = gitExt?.exports?.getAPI?.(1);
-  return api;
+function isWindowWorking(state: vscode.WindowState): boolean {
+  return state.focused && state.active;
 }
 
-function setupGitLoggingForProject(info: ProjectInfo) {
-  const git = getGitAPI();
-  if (!git) {
-    logChannel.appendLine('Foam Central: Git API not available');
-    return;
-  }
+function initSessionTracking(context: vscode.ExtensionContext): void {
+  initSessionStore(context.globalStorageUri.fsPath, isWindowWorking(vscode.window.state));
 
-  const normalizedProject = normalizePath(info.path);
-  for (const repo of git.repositories) {
-    const root = normalizePath(repo.rootUri.fsPath);
-    if (root !== normalizedProject) continue;
+  context.subscriptions.push(
+    vscode.window.onDidChangeWindowState(state => setWorking(isWindowWorking(state)))
+  );
 
-    logChannel.appendLine(`Foam Central: Found Git repo for project at ${repo.rootUri.fsPath}`);
-    repoHeads.set(repo, repo.state.HEAD?.commit);
+  sessionHeartbeatTimer = setInterval(() => {
+    void heartbeat();
+    // Pick up sessions of windows that were closed in the meantime.
+    void logFinishedSessions();
+  }, HEARTBEAT_INTERVAL_MS);
 
-    repo.state.onDidChange(async () => {
-      try {
-        await handleRepoStateChange(repo, info);
-      } catch (err) {
-        console.error('Foam Central: handleRepoStateChange failed', err);
-        logChannel.appendLine('handleRepoStateChange failed: ' + String(err));
+  context.subscriptions.push({
+    dispose: () => {
+      if (sessionHeartbeatTimer) {
+        clearInterval(sessionHeartbeatTimer);
+        sessionHeartbeatTimer = undefined;
       }
-    });
-
-    break;
-  }
+    }
+  });
 }
 
-async function handleRepoStateChange(repo: any, info: ProjectInfo) {
-  const head = repo.state.HEAD;
-  if (!head || !head.commit) return;
-
-  const prevCommit = repoHeads.get(repo);
-  if (prevCommit === head.commit) {
-    return; // nothing new
-  }
-  repoHeads.set(repo, head.commit);
-
-  let latest: any;
+async function logFinishedSessions(): Promise<void> {
+  let finished: SessionRecord[];
   try {
-    const logEntries = await repo.log({ maxEntries: 1 });
-    latest = logEntries[0];
+    finished = await reconcileSessions();
   } catch (err) {
-    console.error('Foam Central: repo.log failed', err);
+    logChannel.appendLine('reconcileSessions failed: ' + String(err));
     return;
   }
-  if (!latest) return;
 
-  const branch = head.name || '(detached)';
-  const message = latest.message || '';
-  const shortHash = (latest.hash || '').slice(0, 7);
-
-  const ahead = head.ahead ?? 0;
-  const behind = head.behind ?? 0;
-
-  let kind: 'COMMIT' | 'PULL' | 'UPDATE' = 'UPDATE';
-  if (ahead > 0) {
-    kind = 'COMMIT';
-  } else if (ahead === 0 && behind === 0) {
-    kind = 'PULL';
-  }
-
-  let tags: string[] = [];
-  if (Array.isArray(latest.refs)) {
-    tags = latest.refs
-      .filter((r: any) => r.type === 2 /* tag */)
-      .map((r: any) => r.name);
+  for (const record of finished) {
+    try {
+      await logProjectClose(record);
+    } catch (err) {
+      console.error('Foam Central: failed to log session close', err);
+      logChannel.appendLine(`logProjectClose failed for ${record.slug}: ${String(err)}`);
+    }
   }
-
-  const upstreamName = head.upstream?.name || '';
-
-  await logVcsEvent(kind, info, {
-    branch,
-    message,
-    shortHash,
-    ahead,
-    behind,
-    tags,
-    upstreamName
-  });
 }
 
-async function logVcsEvent(
-  kind: 'COMMIT' | 'PULL' | 'UPDATE',
-  info: ProjectInfo,
-  evt: VcsEvent
-): Promise<void> {
-  const now = new Date();
-  const timeStr = formatTime(now);
-  const dateStr = now.toISOString().slice(0, 10);
+async function logProjectClose(record: SessionRecord): Promise<void> {
+  const start = new Date(record.start);
+  const end = new Date(record.end ?? record.lastHeartbeat);
+  const timeStr = formatTime(end);
+  const dateStr = getDailyNoteSlug(end);
 
-  const tagStr = evt.tags.length ? ` tags: ${evt.tags.join(', ')}` : '';
-  const upStr = evt.upstreamName ? ` upstream: ${evt.upstreamName}` : '';
-  const aheadBehind = `ahead ${evt.ahead}, behind ${evt.behind}`;
-  const projectRef = `[[projects/${info.slug}/home]]`;
+  const openedAt = getDailyNoteSlug(start) === dateStr
+    ? formatTime(start)
+    : `${getDailyNoteSlug(start)} ${formatTime(start)}`;
+  const idleMs = Math.max(0, end.getTime() - start.getTime() - record.activeMs);
 
-  // DAILY NOTE
+  const projectRef = `[[projects/${record.slug}/home]]`;
   const dailyLine =
-    `- ${timeStr} [${kind}] ${projectRef} ` +
-    `on branch ${evt.branch} "${evt.message}" ` +
-    `(${aheadBehind}${tagStr ? ',' + tagStr : ''}${upStr ? ',' + upStr : ''})`;
+    `- ${timeStr} [CLOSE] ${projectRef} active ${formatDuration(record.activeMs)} ` +
+    `(opened ${openedAt}, idle ${formatDuration(idleMs)})`;
 
-  const dailySlug = await appendToDailyNote([dailyLine]);
+  // Goes into the note for the day the session ended, not today's.
+  const dailySlug = await appendToDailyNote([dailyLine], end);
   if (!dailySlug) return;
 
-  // VCS PAGE
-  try {
-    const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(info.vcsPath));
-    const lines = [
-      '',
-      `## ${dateStr} ${timeStr} [${kind}] (${evt.branch})`,
-      '',
-      `- Commit: \`${evt.shortHash}\``,
-      `- Message: \`${evt.message}\``,
-      `- Ahead: ${evt.ahead} Behind: ${evt.behind}`,
-      upStr ? `- Upstream: ${evt.upstreamName}` : '',
-      tagStr ? `- Tags: ${evt.tags.join(', ')}` : '',
-      `- Journal: [[${dailySlug}]]`,
-      '',
-      ''
-    ].filter(Boolean);
+  await recordActivity({
+    kind: 'CLOSE',
+    timestamp: end,
+    projectSlug: record.slug,
+    projectPath: record.projectPath,
+    details: {
+      startedAt: start.toISOString(),
+      activeMs: record.activeMs,
+      idleMs
+    }
+  });
 
-    const edit = new vscode.WorkspaceEdit();
-    const lastLine = doc.lineAt(doc.lineCount - 1);
-    edit.insert(doc.uri, lastLine.range.end, lines.join('\n'));
-    await vscode.workspace.applyEdit(edit);
-    await doc.save();
+  try {
+    await insertIntoNoteSection(record.homePath, '## Activity', [
+      `- [[${dailySlug}|${dateStr}]] closed at ${timeStr} (active ${formatDuration(record.activeMs)})`
+    ]);
   } catch (err) {
-    console.error('Foam Central: failed to log VCS in vcs.md', err);
+    console.error('Foam Central: failed to log close in home.md', err);
   }
 }
 
-/* ---------- Project detection (notes + project in workspace) ---------- */
+/* ---------- Git integration ---------- */
 
-async function initProjectTelemetry(): Promise<void> {
-  const notesFolder = getNotesFolder();
-  logChannel.appendLine('initProjectTelemetry: notesFolder=' + String(notesFolder));
-  if (!notesFolder) {
-    return;
+function getGitAPI(): GitAPI | undefined {
+  const gitExt = vscode.extensions.getExtension<any>('vscode.git');
+  const api = gitExt?.exports?.getAPI?.(1);
+  return api;
+}
+
+// The Git extension may not be active yet when we start.
+async function activateGitAPI(): Promise<GitAPI | undefined> {
+  const gitExt = vscode.extensions.getExtension<any>('vscode.git');
+  if (gitExt && !gitExt.isActive) {
+    try {
+      await gitExt.activate();
+    } catch (err) {
+      logChannel.appendLine('Foam Central: failed to activate the Git extension: ' + String(err));
+    }
   }
+  return getGitAPI();
+}
 
-  const folders = vscode.workspace.workspaceFolders;
-  logChannel.appendLine(
-    'initProjectTelemetry: workspaceFolders=' +
-    JSON.stringify(folders?.map(f => f.uri.fsPath))
-  );
-  if (!folders || folders.length === 0) {
-    logChannel.appendLine('initProjectTelemetry: no workspace folders, nothing to do');
-    return;
+// The innermost Git repository containing `filePath`, if any.
+function findRepositoryForPath(filePath: string, repositories: any[] = getGitAPI()?.repositories ?? []): any | undefined {
+  const target = normalizePath(filePath);
+  let best: any;
+  let bestLength = -1;
+  for (const repo of repositories) {
+    const root = normalizePath(repo.rootUri.fsPath);
+    if (isSameOrInside(target, root) && root.length > bestLength) {
+      best = repo;
+      bestLength = root.length;
+    }
   }
+  return best;
+}
 
-  const notesNorm = normalizePath(notesFolder);
+// Where a repository's events go: the project's own log, or a section of vcs.md for a nested repo.
+interface RepoLogTarget {
+  heading?: string;     // e.g. "# Submodule: libs/parser"; undefined for the project repository
+  label?: string;       // path relative to the project, shown in the daily note
+}
 
-  // Prefer a folder that is NOT the notes folder, if present.
-  let projectFolder = folders[0];
-  const nonNotes = folders.find(f => normalizePath(f.uri.fsPath) !== notesNorm);
-  if (nonNotes) {
-    projectFolder = nonNotes;
+/**
+ * Logs the project's repository (the innermost one containing the project
+ * folder, so a project opened at a subfolder of a repo is covered), and with
+ * foamCentral.vcs.logNestedRepositories also submodules and other repos
+ * inside the project. Repositories the Git extension opens or closes later
+ * are picked up as they come.
+ */
+async function setupGitLoggingForProject(info: ProjectInfo): Promise<vscode.Disposable | undefined> {
+  const git = await activateGitAPI();
+  if (!git) {
+    logChannel.appendLine('Foam Central: Git API not available');
+    return undefined;
   }
 
-  const projectFolderPath = projectFolder.uri.fsPath;
-
-  // Use override (foamCentral.projectNameOverride) if set, otherwise folder name
-  const projectName = getProjectLabel(projectFolder);
-  const slug = projectName.replace(/\s+/g, '_');
+  const watched = new Map<any, vscode.Disposable>();
 
-  const projectNotesRoot = path.join(notesFolder, getProjectNotesFolderName(), slug);
-  const homePath = path.join(projectNotesRoot, 'home.md');
-  const vcsPath = path.join(projectNotesRoot, 'vcs.md');
+  const sync = () => {
+    const wanted = selectProjectRepositories(info, git.repositories);
+    for (const [repo, watcher] of watched) {
+      if (!wanted.has(repo)) {
+        watcher.dispose();
+        watched.delete(repo);
+      }
+    }
+    for (const [repo, target] of wanted) {
+      if (!watched.has(repo)) {
+        watched.set(repo, watchRepository(repo, info, target));
+      }
+    }
+  };
+  sync();
+
+  const subscriptions: vscode.Disposable[] = [
+    git.onDidOpenRepository(() => sync()),
+    git.onDidCloseRepository(repo => {
+      watched.get(repo)?.dispose();
+      watched.delete(repo);
+      sync(); // an outer repository may now be the closest one
+    }),
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('foamCentral.vcs.logNestedRepositories')) {
+        sync();
+      }
+    })
+  ];
 
-  currentProject = {
-    name: projectName,
-    path: projectFolderPath,
-    slug,
-    homePath,
-    vcsPath
+  return {
+    dispose: () => {
+      for (const d of subscriptions) {
+        d.dispose();
+      }
+      for (const watcher of watched.values()) {
+        watcher.dispose();
+      }
+      watched.clear();
+    }
   };
+}
 
-  logChannel.appendLine(
-    `initProjectTelemetry: project="${projectName}" slug="${slug}" path="${projectFolderPath}"`
+function selectProjectRepositories(info: ProjectInfo, repositories: any[]): Map<any, RepoLogTarget> {
+  const result = new Map<any, RepoLogTarget>();
+
+  const main = findRepositoryForPath(info.path, repositories);
+  if (main) {
+    result.set(main, {});
+  }
+
+  const config = vscode.workspace.getConfiguration('foamCentral');
+  if (!config.get<boolean>('vcs.logNestedRepositories', false)) {
+    return result;
+  }
+
+  const project = normalizePath(info.path);
+  for (const repo of repositories) {
+    const root = normalizePath(repo.rootUri.fsPath);
+    if (repo === main || root === project || !isSameOrInside(root, project)) continue;
+
+    const label = path.relative(info.path, repo.rootUri.fsPath).split(path.sep).join('/');
+    // A submodule's .git is a file pointing into the parent repository.
+    let isSubmodule = false;
+    try {
+      isSubmodule = fs.statSync(path.join(repo.rootUri.fsPath, '.git')).isFile();
+    } catch {
+      // ignore
+    }
+    result.set(repo, { heading: `# ${isSubmodule ? 'Submodule' : 'Nested repository'}: ${label}`, label });
+  }
+  return result;
+}
+
+// The project's own H1 in vcs.md when its title is not "VCS log for <name>" (e.g. from a template)
+function isProjectVcsTitle(title: string): boolean {
+  return !/^(Submodule|Nested repository): /.test(title);
+}
+
+function watchRepository(repo: any, info: ProjectInfo, target: RepoLogTarget): vscode.Disposable {
+  logChannel.appendLine(
+    `Foam Central: Found Git repo for project "${info.name}" at ${repo.rootUri.fsPath}` +
+    (target.label ? ` (${target.label})` : '')
+  );
+
+  // State events are handled one at a time, each diffed against the previous snapshot.
+  let snapshot: RepoSnapshot | undefined;
+  let lastOnBranch: RepoSnapshot | undefined;
+  let chain: Promise<void> = takeRepoSnapshot(repo, undefined)
+    .then(s => {
+      snapshot = s;
+      lastOnBranch = s.branch ? s : undefined;
+    })
+    .catch(err => {
+      logChannel.appendLine('Initial repo snapshot failed: ' + String(err));
+    });
+
+  return repo.state.onDidChange(() => {
+    chain = chain
+      .then(async () => {
+        snapshot = await handleRepoStateChange(repo, info, target, snapshot, lastOnBranch);
+        if (snapshot.branch) {
+          lastOnBranch = snapshot;
+        }
+      })
+      .catch(err => {
+        console.error('Foam Central: handleRepoStateChange failed', err);
+        logChannel.appendLine('handleRepoStateChange failed: ' + String(err));
+      });
+  });
+}
+
+function getRepoGitRunner(repo: any): GitRunner {
+  const cwd = repo.rootUri.fsPath;
+  return async args => (await runGit(args, cwd)).stdout;
+}
+
+const repoGitDirs = new Map<string, Promise<string | undefined>>();
+
+// Modification times of the files git keeps tags and stash in; cheap to read on every state event.
+// The upstream's remote-tracking ref only moves with ahead / behind, which the HEAD state covers.
+async function readRefsStamp(repo: any): Promise<string | undefined> {
+  const root = repo.rootUri.fsPath;
+  let gitDir = repoGitDirs.get(root);
+  if (!gitDir) {
+    gitDir = runGit(['rev-parse', '--git-common-dir'], root).then(
+      r => path.resolve(root, r.stdout.trim()),
+      () => undefined
+    );
+    repoGitDirs.set(root, gitDir);
+  }
+  const dir = await gitDir;
+  if (!dir) {
+    return undefined;
+  }
+
+  const files = ['packed-refs', path.join('refs', 'tags'), path.join('refs', 'stash')];
+  const times = await Promise.all(
+    files.map(f => fsp.stat(path.join(dir, f)).then(s => String(s.mtimeMs), () => '-'))
+  );
+  return times.join(' ');
+}
+
+async function takeRepoSnapshot(repo: any, previous: RepoSnapshot | undefined): Promise<RepoSnapshot> {
+  const head = repo.state.HEAD;
+  const state = {
+    branch: head?.name || undefined,
+    commit: head?.commit || undefined,
+    upstream: head?.upstream ? `${head.upstream.remote}/${head.upstream.name}` : undefined,
+    ahead: head?.ahead ?? 0,
+    behind: head?.behind ?? 0
+  };
+
+  // State events fire on every save and index change; only list refs when HEAD or the ref files moved.
+  const refsStamp = await readRefsStamp(repo);
+  if (previous && refsStamp && previous.refsStamp === refsStamp && !headChanged(previous, state)) {
+    return { ...state, upstreamCommit: previous.upstreamCommit, tags: previous.tags, stash: previous.stash, refsStamp };
+  }
+
+  const refs = await readRefs(getRepoGitRunner(repo), state.upstream).then(
+    r => ({ ...r, refsStamp }),
+    // Keep the old refs rather than reporting every tag as new next time
+    () => ({
+      upstreamCommit: undefined,
+      tags: previous?.tags ?? new Map<string, string>(),
+      stash: previous?.stash,
+      refsStamp: undefined
+    })
+  );
+
+  return { ...state, ...refs };
+}
+
+// Logs what changed since `prev` and returns the new snapshot.
+async function handleRepoStateChange(
+  repo: any,
+  info: ProjectInfo,
+  target: RepoLogTarget,
+  prev: RepoSnapshot | undefined,
+  lastOnBranch: RepoSnapshot | undefined
+): Promise<RepoSnapshot> {
+  const next = await takeRepoSnapshot(repo, prev);
+  // Nothing to compare with until the Git extension has loaded HEAD.
+  if (!prev?.commit) {
+    return next;
+  }
+
+  const changes = await detectVcsChanges(getRepoGitRunner(repo), prev, next, lastOnBranch);
+  for (const change of changes) {
+    await logVcsEvent(change, info, target);
+  }
+  return next;
+}
+
+async function logVcsEvent(change: VcsChange, info: ProjectInfo, target: RepoLogTarget = {}): Promise<void> {
+  const now = new Date();
+  const timeStr = formatTime(now);
+  const dateStr = getDailyNoteSlug(now);
+  const projectRef = `[[projects/${info.slug}/home]]` + (target.label ? ` \`${target.label}\`` : '');
+  const issueRules = getIssueRules();
+  const formatText = (text: string) => linkIssueReferences(text, issueRules);
+
+  // DAILY NOTE
+  const dailySlug = await appendToDailyNote([formatDailyLine(change, timeStr, projectRef, formatText)]);
+  if (!dailySlug) return;
+
+  const issueEntries = getIssueNoteEntries(change, issueRules, `[[${dailySlug}|${dateStr}]]`, timeStr);
+
+  const last = change.commits[change.commits.length - 1];
+  const isCommit = change.kind === 'COMMIT' || change.kind === 'MERGE';
+  await recordActivity({
+    kind: change.kind,
+    timestamp: now,
+    projectSlug: info.slug,
+    projectPath: info.path,
+    branch: change.branch,
+    hash: last?.hash ?? change.snapshot.commit ?? null,
+    ahead: change.snapshot.ahead,
+    behind: change.snapshot.behind,
+    tags: change.tag ? [change.tag] : [],
+    details: {
+      ...(isCommit && last ? { message: last.subject, author: last.author } : {}),
+      ...(change.kind === 'PULL' || change.kind === 'REWRITE' ? { count: change.commits.length } : {}),
+      ...(change.count !== undefined ? { count: change.count } : {}),
+      ...(change.from ? { from: change.from } : {}),
+      ...(change.to ? { to: change.to } : {}),
+      ...(change.message ? { message: change.message } : {}),
+      ...(change.snapshot.upstream ? { upstream: change.snapshot.upstream } : {}),
+      ...(target.label ? { repository: target.label } : {}),
+      ...(issueEntries.length > 0 ? { issues: [...new Set(issueEntries.map(e => e.ref.key))].join(', ') } : {})
+    }
+  });
+
+  // VCS PAGE
+  try {
+    // Entries are sub-headings under the page's own H1 (or the first one that
+    // is not a nested repository's), or under the nested repository's H1 section
+    const entry = formatVcsPageEntry(change, dateStr, timeStr, dailySlug, formatText);
+    if (issueEntries.length > 0) {
+      entry.push(`- Issues: ${formatIssueNoteLinks(info, issueEntries)}`);
+    }
+    await insertIntoNoteSection(
+      info.vcsPath,
+      target.heading ?? `# VCS log for ${info.name}`,
+      entry,
+      {
+        sortKey: getEntrySortKey,
+        blankLineBetween: true,
+        otherTitles: target.heading ? undefined : isProjectVcsTitle
+      }
+    );
+  } catch (err) {
+    console.error('Foam Central: failed to log VCS in vcs.md', err);
+  }
+
+  // ISSUE NOTES
+  await addToIssueNotes(info, issueEntries);
+}
+
+/* ---------- Issue notes (projects/<slug>/issues/<key>.md) ---------- */
+
+interface IssueNoteEntry {
+  ref: IssueReference;
+  line: string;
+  hash?: string;      // commit entries: skipped if the note already has the commit
+}
+
+function getIssueRules(): IssueRule[] {
+  const cfg = vscode.workspace.getConfiguration('foamCentral');
+  const settings = cfg.get<IssueReferenceSetting[]>('vcs.issueReferences', []);
+  const { rules, errors } = compileIssueRules(Array.isArray(settings) ? settings : []);
+  for (const error of errors) {
+    logChannel.appendLine('foamCentral.vcs.issueReferences: ' + error);
+  }
+  return rules;
+}
+
+/**
+ * Issue note lines for a change: every commit whose message or branch refers
+ * to an issue, and branches switched to.
+ */
+function getIssueNoteEntries(
+  change: VcsChange,
+  rules: IssueRule[],
+  dailyLink: string,
+  timeStr: string
+): IssueNoteEntry[] {
+  if (rules.length === 0) return [];
+  const entries: IssueNoteEntry[] = [];
+
+  if (change.kind === 'CHECKOUT' && change.to) {
+    for (const ref of findBranchIssueReferences(change.to, rules)) {
+      entries.push({ ref, line: `- ${dailyLink} ${timeStr} [CHECKOUT] switched to \`${change.to}\`` });
+    }
+  }
+
+  if (change.kind === 'COMMIT' || change.kind === 'MERGE' || change.kind === 'PULL' || change.kind === 'REWRITE') {
+    for (const commit of change.commits) {
+      entries.push(...getIssueCommitEntries(commit, change.kind, change.branch, rules, dailyLink, timeStr));
+    }
+  }
+  return entries;
+}
+
+function getIssueCommitEntries(
+  commit: CommitInfo,
+  kind: string,
+  branch: string | undefined,
+  rules: IssueRule[],
+  dailyLink: string,
+  timeStr: string
+): IssueNoteEntry[] {
+  const refs = findIssueReferences(commit.subject, rules);
+  for (const ref of branch ? findBranchIssueReferences(branch, rules) : []) {
+    if (!refs.some(r => r.key === ref.key)) {
+      refs.push(ref);
+    }
+  }
+  const line =
+    `- ${dailyLink} ${timeStr} [${kind}] \`${shortHash(commit.hash)}\` ` +
+    `${linkIssueReferences(commit.subject, rules)}${branch ? ` (${branch})` : ''}`;
+  return refs.map(ref => ({ ref, line, hash: commit.hash }));
+}
+
+/** `[[projects/<slug>/issues/<key>|#123]]` for each issue the entries refer to. */
+function formatIssueNoteLinks(info: ProjectInfo, entries: IssueNoteEntry[]): string {
+  const refs = new Map(entries.map(e => [e.ref.key, e.ref]));
+  return [...refs.values()]
+    .map(ref => `[[projects/${info.slug}/issues/${getIssueNoteName(ref.key)}|${ref.text}]]`)
+    .join(', ');
+}
+
+async function addToIssueNotes(info: ProjectInfo, entries: IssueNoteEntry[]): Promise<void> {
+  const byKey = new Map<string, IssueNoteEntry[]>();
+  for (const entry of entries) {
+    byKey.set(entry.ref.key, [...(byKey.get(entry.ref.key) ?? []), entry]);
+  }
+
+  for (const keyEntries of byKey.values()) {
+    const ref = keyEntries[0].ref;
+    const filePath = path.join(path.dirname(info.homePath), 'issues', `${getIssueNoteName(ref.key)}.md`);
+
+    try {
+      await withNotesLock('issue note', async () => {
+        await createIssueNoteIfMissing(filePath, info, ref);
+        const recorded = collectRecordedHashes(await fsp.readFile(filePath, 'utf8'));
+        for (const entry of keyEntries) {
+          if (entry.hash && recorded.has(shortHash(entry.hash))) continue;
+          await insertIntoNoteSection(filePath, '## Log', [entry.line]);
+        }
+      });
+    } catch (err) {
+      console.error('Foam Central: failed to update issue note', err);
+      logChannel.appendLine(`addToIssueNotes failed for ${ref.key}: ${String(err)}`);
+    }
+  }
+}
+
+async function createIssueNoteIfMissing(filePath: string, info: ProjectInfo, ref: IssueReference): Promise<void> {
+  try {
+    await fsp.access(filePath);
+    return;
+  } catch {
+    // create it below
+  }
+
+  const notesFolder = getNotesFolder();
+  if (!notesFolder) return;
+
+  const now = new Date();
+  const vars: TemplateVars = {
+    ...buildDateTemplateVars(notesFolder, now),
+    ...buildProjectTemplateVars(info),
+    created: now.toISOString(),
+    'issue.key': ref.key,
+    'issue.text': ref.text,
+    'issue.url': ref.url ?? ''
+  };
+  const content = await renderNoteTemplate(getTemplatesDir(notesFolder), 'project-issue', vars, () => [
+    '---',
+    'type: project-issue',
+    `project: ${info.slug}`,
+    `issue: ${JSON.stringify(ref.key)}`,
+    '---',
+    '',
+    `# ${ref.text}`,
+    '',
+    ...(ref.url ? [`- Tracker: [${ref.text}](${ref.url})`] : []),
+    `- Project: [[projects/${info.slug}/home]]`,
+    '',
+    '## Log',
+    ''
+  ].join('\n'));
+
+  await fsp.mkdir(path.dirname(filePath), { recursive: true });
+  await fsp.writeFile(filePath, content, { encoding: 'utf8' });
+  await maybeUpdateFolderIndexForFile(vscode.Uri.file(filePath));
+}
+
+/* ---------- Project detection (notes + project in workspace) ---------- */
+
+function buildProjectInfo(notesFolder: string, folder: vscode.WorkspaceFolder): ProjectInfo {
+  // Use override (foamCentral.projectNameOverride) if set, otherwise folder name
+  const projectName = getProjectLabel(folder);
+  const slug = toProjectSlug(projectName);
+
+  const projectNotesRoot = path.join(notesFolder, getProjectNotesFolderName(), slug);
+
+  return {
+    name: projectName,
+    path: folder.uri.fsPath,
+    slug,
+    homePath: path.join(projectNotesRoot, 'home.md'),
+    vcsPath: path.join(projectNotesRoot, 'vcs.md')
+  };
+}
+
+async function initProjectTelemetry(): Promise<void> {
+  const notesFolder = getNotesFolder();
+  logChannel.appendLine('initProjectTelemetry: notesFolder=' + String(notesFolder));
+  if (!notesFolder) {
+    return;
+  }
+
+  const folders = vscode.workspace.workspaceFolders;
+  logChannel.appendLine(
+    'initProjectTelemetry: workspaceFolders=' +
+    JSON.stringify(folders?.map(f => f.uri.fsPath))
+  );
+  if (!folders || folders.length === 0) {
+    logChannel.appendLine('initProjectTelemetry: no workspace folders, nothing to do');
+    return;
+  }
+
+  const notesNorm = normalizePath(notesFolder);
+
+  // Every folder that is NOT the notes folder is a project. If the notes folder
+  // is all we have, fall back to treating it as the project.
+  let projectFolders = folders.filter(f => normalizePath(f.uri.fsPath) !== notesNorm);
+  if (projectFolders.length === 0) {
+    projectFolders = [folders[0]];
+  }
+
+  for (const folder of projectFolders) {
+    await startProjectTelemetry(notesFolder, folder);
+  }
+}
+
+async function startProjectTelemetry(notesFolder: string, folder: vscode.WorkspaceFolder): Promise<void> {
+  const key = normalizePath(folder.uri.fsPath);
+  if (projects.has(key)) {
+    return;
+  }
+
+  const info = buildProjectInfo(notesFolder, folder);
+  projects.set(key, info);
+
+  logChannel.appendLine(
+    `initProjectTelemetry: project="${info.name}" slug="${info.slug}" path="${info.path}"`
+  );
+
+  await ensureProjectFiles(notesFolder, info);
+  await logProjectOpen(info);
+  startSession(info);
+
+  const watcher = await setupGitLoggingForProject(info);
+  if (watcher) {
+    projectGitWatchers.set(key, watcher);
+  }
+}
+
+async function stopProjectTelemetry(folderPath: string): Promise<void> {
+  const key = normalizePath(folderPath);
+  const info = projects.get(key);
+  if (!info) {
+    return;
+  }
+
+  projects.delete(key);
+  projectGitWatchers.get(key)?.dispose();
+  projectGitWatchers.delete(key);
+
+  const record = endSession(info.slug);
+  if (record) {
+    await logProjectClose(record);
+  }
+  logChannel.appendLine(`stopProjectTelemetry: project="${info.name}" removed from workspace`);
+}
+
+async function onWorkspaceFoldersChanged(e: vscode.WorkspaceFoldersChangeEvent): Promise<void> {
+  const notesFolder = getNotesFolder();
+  if (!notesFolder) {
+    return;
+  }
+  const notesNorm = normalizePath(notesFolder);
+
+  for (const folder of e.removed) {
+    await stopProjectTelemetry(folder.uri.fsPath);
+  }
+
+  for (const folder of e.added) {
+    if (normalizePath(folder.uri.fsPath) === notesNorm) continue;
+    await startProjectTelemetry(notesFolder, folder);
+  }
+}
+
+
+/* ---------- Command: set project alias (+ notes migration) ---------- */
+
+async function setProjectAliasCommand(): Promise<void> {
+  const notesFolder = getNotesFolder();
+  if (!notesFolder) {
+    vscode.window.showErrorMessage(
+      'Foam Central: notesFolder is not configured. Set "foamCentral.notesFolder" in Settings first.'
+    );
+    return;
+  }
+
+  const folders = vscode.workspace.workspaceFolders;
+  const notesNorm = normalizePath(notesFolder);
+  const projectFolders = (folders || []).filter(f => normalizePath(f.uri.fsPath) !== notesNorm);
+  if (projectFolders.length === 0) {
+    vscode.window.showErrorMessage(
+      'Foam Central: No project folder is open. Open a project folder first, then run this command.'
+    );
+    return;
+  }
+
+  let folder = projectFolders[0];
+  if (projectFolders.length > 1) {
+    const pick = await vscode.window.showQuickPick(
+      projectFolders.map(f => ({ label: getProjectLabel(f), description: f.uri.fsPath, folder: f })),
+      { title: 'Foam Central: choose project folder' }
+    );
+    if (!pick) {
+      return;
+    }
+    folder = pick.folder;
+  }
+
+  const oldName = getProjectLabel(folder);
+  const oldSlug = toProjectSlug(oldName);
+
+  const input = await vscode.window.showInputBox({
+    title: 'Foam Central: Project alias',
+    value: oldName,
+    prompt: `Name used for "${folder.name}" in your notes. Leave empty to use the folder name.`,
+    validateInput: value => (/[\\/]/.test(value) ? 'The alias cannot contain path separators.' : undefined)
+  });
+  if (input === undefined) {
+    return;
+  }
+
+  const alias = input.trim();
+  const newName = alias.length > 0 ? alias : folder.name;
+  const newSlug = toProjectSlug(newName);
+
+  const config = vscode.workspace.getConfiguration('foamCentral', folder.uri);
+  await config.update(
+    'projectNameOverride',
+    alias.length > 0 ? alias : undefined,
+    vscode.ConfigurationTarget.WorkspaceFolder
+  );
+
+  // Keep the in-memory project in sync; the Git watcher holds on to this object.
+  const project = projects.get(normalizePath(folder.uri.fsPath));
+  if (project) {
+    Object.assign(project, buildProjectInfo(notesFolder, folder));
+    renameSession(oldSlug, project);
+  }
+
+  if (newSlug === oldSlug) {
+    vscode.window.showInformationMessage(
+      `Foam Central: project alias set to "${newName}" (notes folder unchanged).`
+    );
+    return;
+  }
+
+  const result = await migrateProjectNotes(notesFolder, oldSlug, newSlug, oldName, newName);
+
+  logChannel.appendLine(
+    `setProjectAlias: "${oldSlug}" -> "${newSlug}", moved ${result.moved} item(s), ` +
+    `rewrote links in ${result.filesRewritten} file(s)`
+  );
+
+  if (result.conflicts.length > 0) {
+    vscode.window.showWarningMessage(
+      `Foam Central: project notes moved to "${newSlug}", but ${result.conflicts.length} item(s) already ` +
+      `existed there and were left in "${oldSlug}": ${result.conflicts.join(', ')}`
+    );
+  } else {
+    vscode.window.showInformationMessage(
+      `Foam Central: project alias set to "${newName}". Moved notes to "${newSlug}" and ` +
+      `updated links in ${result.filesRewritten} file(s).`
+    );
+  }
+}
+
+async function migrateProjectNotes(
+  notesFolder: string,
+  oldSlug: string,
+  newSlug: string,
+  oldName: string,
+  newName: string
+): Promise<{ moved: number; conflicts: string[]; filesRewritten: number }> {
+  const projectsFolderName = getProjectNotesFolderName();
+  const projectsDir = path.join(notesFolder, projectsFolderName);
+  const oldDir = path.join(projectsDir, oldSlug);
+  const newDir = path.join(projectsDir, newSlug);
+
+  let moved = 0;
+  const conflicts: string[] = [];
+
+  if (fs.existsSync(oldDir)) {
+    if (!fs.existsSync(newDir)) {
+      await fsp.mkdir(path.dirname(newDir), { recursive: true });
+      await fsp.rename(oldDir, newDir);
+      moved = 1;
+    } else {
+      // Target already exists (e.g. alias switched back and forth): merge what we can.
+      const entries = await fsp.readdir(oldDir);
+      for (const name of entries) {
+        const target = path.join(newDir, name);
+        if (fs.existsSync(target)) {
+          conflicts.push(name);
+          continue;
+        }
+        await fsp.rename(path.join(oldDir, name), target);
+        moved++;
+      }
+      if (conflicts.length === 0) {
+        await fsp.rmdir(oldDir).catch(() => undefined);
+      }
+    }
+  }
+
+  // Update the project's own metadata
+  const homePath = path.join(newDir, 'home.md');
+  const vcsPath = path.join(newDir, 'vcs.md');
+  await rewriteFile(homePath, content =>
+    content
+      .replace(/^slug: .*$/m, `slug: ${newSlug}`)
+      .replace(/^name: .*$/m, `name: ${newName}`)
+      .replace(`# Project: ${oldName}`, `# Project: ${newName}`)
+  );
+  await rewriteFile(vcsPath, content =>
+    content
+      .replace(/^project: .*$/m, `project: ${newSlug}`)
+      .replace(`# VCS log for ${oldName}`, `# VCS log for ${newName}`)
+  );
+
+  // Rewrite [[projects/<oldSlug>/...]] links everywhere in the notes tree
+  const prefixes = Array.from(new Set(['projects', projectsFolderName])).map(escapeRegExp);
+  const linkPattern = new RegExp(
+    `\\[\\[(${prefixes.join('|')})/${escapeRegExp(oldSlug)}/`,
+    'g'
+  );
+
+  let filesRewritten = 0;
+  for (const file of await listMarkdownFiles(notesFolder)) {
+    const changed = await rewriteFile(file, content =>
+      content.replace(linkPattern, (_m, prefix) => `[[${prefix}/${newSlug}/`)
+    );
+    if (changed) {
+      filesRewritten++;
+    }
+  }
+
+  return { moved, conflicts, filesRewritten };
+}
+
+/**
+ * Apply a text transform to a file on disk. Returns true if the file changed.
+ * Missing files are ignored.
+ */
+async function rewriteFile(filePath: string, transform: (content: string) => string): Promise<boolean> {
+  return withNotesLock(`rewrite ${path.basename(filePath)}`, async () => {
+    let content: string;
+    try {
+      content = await fsp.readFile(filePath, 'utf8');
+    } catch {
+      return false;
+    }
+
+    const updated = transform(content);
+    if (updated === content) {
+      return false;
+    }
+
+    await fsp.writeFile(filePath, updated, { encoding: 'utf8' });
+    return true;
+  });
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/* ---------- Command: generate time reports ---------- */
+
+async function generateTimeReportsCommand(): Promise<void> {
+  const notesFolder = getNotesFolder();
+  if (!notesFolder) {
+    vscode.window.showWarningMessage('Foam Central: Notes folder is not configured.');
+    return;
+  }
+
+  const layout = getJournalLayout(notesFolder);
+  const journalRoot = getJournalRoot(notesFolder, layout);
+  const weekPeriod = (date: Date) =>
+    getWeekReportPeriod(journalRoot, getWeekFolder(notesFolder, layout, date), date);
+
+  const now = new Date();
+  const lastWeek = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 7);
+  const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+
+  const pick = await vscode.window.showQuickPick(
+    [
+      {
+        label: 'This week and this month',
+        periods: [weekPeriod(now), getMonthReportPeriod(journalRoot, now)]
+      },
+      { label: 'Last week', periods: [weekPeriod(lastWeek)] },
+      { label: 'Last month', periods: [getMonthReportPeriod(journalRoot, lastMonth)] }
+    ],
+    { title: 'Foam Central: generate time reports' }
+  );
+  if (!pick) {
+    return;
+  }
+
+  const periods = pick.periods as ReportPeriod[];
+  const dailyNotes = await findDailyNotes(layout, notesFolder, await listMarkdownFiles(journalRoot));
+  const firstDay = periods.map(p => p.firstDay).sort()[0];
+  const dayAfter = parseIsoDay(periods.map(p => p.lastDay).sort()[periods.length - 1]);
+  dayAfter.setDate(dayAfter.getDate() + 1);
+  const events = await readActivityEvents(notesFolder, { from: parseIsoDay(firstDay), to: dayAfter });
+  const written: string[] = [];
+
+  for (const period of periods) {
+    const result = await withNotesLock('time report', () => generateTimeReport(period, dailyNotes, events));
+    logChannel.appendLine(
+      `generateTimeReports: wrote ${result.outputPath} (${result.projectCount} project(s))`
+    );
+    written.push(result.outputPath);
+  }
+
+  if (written.length > 0) {
+    const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(written[0]));
+    await vscode.window.showTextDocument(doc, { preview: false });
+  }
+  vscode.window.showInformationMessage(
+    `Foam Central: generated ${written.length} time report(s).`
+  );
+}
+
+/* ---------- Command: migrate journal layout ---------- */
+
+async function migrateJournalLayoutCommand(): Promise<void> {
+  const notesFolder = getNotesFolder();
+  if (!notesFolder) {
+    vscode.window.showWarningMessage('Foam Central: Notes folder is not configured.');
+    return;
+  }
+
+  const layout = getJournalLayout(notesFolder);
+  const projectsNorm = normalizePath(path.join(notesFolder, getProjectNotesFolderName())) + '/';
+  const candidates = (await listMarkdownFiles(notesFolder))
+    .filter(f => !normalizePath(f).startsWith(projectsNorm));
+
+  const moves: { from: string; to: string; oldSlug: string; newSlug: string }[] = [];
+  const datesBySlug = new Map<string, string[]>();
+
+  for (const note of await findDailyNotes(layout, notesFolder, candidates)) {
+    const date = parseIsoDay(note.date);
+    const target = getDailyNotePath(notesFolder, layout, date);
+    const newSlug = getJournalSlug(layout, date);
+    datesBySlug.set(newSlug, [...(datesBySlug.get(newSlug) ?? []), note.date]);
+    if (normalizePath(target) !== normalizePath(note.filePath)) {
+      moves.push({ from: note.filePath, to: target, oldSlug: note.slug, newSlug });
+    }
+  }
+
+  // Links go by file name: rewriting [[2026-10-19]] and [[2026-11-19]] both to [[19]] would break them
+  const shared = Array.from(datesBySlug).find(([, dates]) => new Set(dates).size > 1);
+  if (shared) {
+    vscode.window.showWarningMessage(
+      `Foam Central: the layout "${layout.pathPattern}" gives the daily notes of ${shared[1].slice(0, 3).join(', ')} ` +
+      `the same file name "${shared[0]}", so [[links]] to them would be ambiguous. ` +
+      'Put the full date in the file name, e.g. with {slug}.'
+    );
+    return;
+  }
+
+  // Weekly todo lists follow their week, if the new layout still has week folders.
+  if (hasWeekFolders(layout)) {
+    for (const file of candidates) {
+      if (path.basename(file).toLowerCase() !== 'todo.md') continue;
+      const fm = await readFrontMatter(file);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(fm.start || '') || fm.week === undefined) continue;
+
+      const weekDir = getWeekFolder(notesFolder, layout, parseIsoDay(fm.start)) as string;
+      const target = path.join(weekDir, 'todo.md');
+      if (normalizePath(target) !== normalizePath(file)) {
+        moves.push({ from: file, to: target, oldSlug: 'todo', newSlug: 'todo' });
+      }
+    }
+  }
+
+  if (moves.length === 0) {
+    vscode.window.showInformationMessage(
+      `Foam Central: all journal notes already follow "${layout.pathPattern}".`
+    );
+    return;
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Foam Central: move ${moves.length} journal file(s) into the layout "${layout.pathPattern}" ` +
+    `(links like [[${getJournalSlug(layout, new Date())}]]) and update links to them?`,
+    { modal: true },
+    'Migrate'
+  );
+  if (confirm !== 'Migrate') {
+    return;
+  }
+
+  const renamedSlugs = new Map<string, string>();
+  const conflicts: string[] = [];
+  const touchedDirs = new Set<string>();
+
+  for (const move of moves) {
+    if (fs.existsSync(move.to)) {
+      conflicts.push(path.relative(notesFolder, move.from));
+      continue;
+    }
+    await fsp.mkdir(path.dirname(move.to), { recursive: true });
+    await fsp.rename(move.from, move.to);
+    touchedDirs.add(path.dirname(move.from));
+    if (move.oldSlug !== move.newSlug) {
+      renamedSlugs.set(move.oldSlug, move.newSlug);
+    }
+  }
+
+  // [[old-slug]] / [[old-slug|alias]] / [[old-slug#heading]] -> new slug
+  let filesRewritten = 0;
+  if (renamedSlugs.size > 0) {
+    const alternatives = Array.from(renamedSlugs.keys()).map(escapeRegExp).join('|');
+    const linkPattern = new RegExp(`\\[\\[(${alternatives})(?=[|#\\]])`, 'g');
+    for (const file of await listMarkdownFiles(notesFolder)) {
+      const changed = await rewriteFile(file, content =>
+        content.replace(linkPattern, (_m, oldSlug: string) => `[[${renamedSlugs.get(oldSlug)}`)
+      );
+      if (changed) {
+        filesRewritten++;
+      }
+    }
+  }
+
+  // Remove folders the old layout leaves empty
+  const notesNorm = normalizePath(notesFolder);
+  for (const dir of touchedDirs) {
+    let current = dir;
+    while (normalizePath(current) !== notesNorm && normalizePath(current).startsWith(notesNorm)) {
+      try {
+        await fsp.rmdir(current);
+      } catch {
+        break; // not empty
+      }
+      current = path.dirname(current);
+    }
+  }
+
+  const moved = moves.length - conflicts.length;
+  logChannel.appendLine(
+    `migrateJournalLayout: moved ${moved} file(s), rewrote links in ${filesRewritten} file(s), ` +
+    `${conflicts.length} conflict(s)`
+  );
+
+  if (conflicts.length > 0) {
+    vscode.window.showWarningMessage(
+      `Foam Central: moved ${moved} journal file(s); ${conflicts.length} were left in place because ` +
+      `the target already exists: ${conflicts.join(', ')}`
+    );
+  } else {
+    vscode.window.showInformationMessage(
+      `Foam Central: moved ${moved} journal file(s) and updated links in ${filesRewritten} file(s).`
+    );
+  }
+}
+
+/* ---------- Command: backfill VCS log ---------- */
+
+async function backfillVcsLogCommand(): Promise<void> {
+  const notesFolder = getNotesFolder();
+  if (!notesFolder) {
+    vscode.window.showWarningMessage('Foam Central: Notes folder is not configured.');
+    return;
+  }
+
+  const info = await pickProject(vscode.window.activeTextEditor, 'Project to backfill the VCS log for');
+  if (info === null) return; // cancelled
+  if (!info) {
+    vscode.window.showInformationMessage('Foam Central: no project is open in this window.');
+    return;
+  }
+
+  const repoRoot = findGitRoot(info.path);
+  if (!repoRoot) {
+    vscode.window.showWarningMessage(`Foam Central: "${info.name}" is not in a Git repository.`);
+    return;
+  }
+  const git: GitRunner = async args => (await runGit(args, repoRoot)).stdout;
+
+  await ensureProjectFiles(notesFolder, info);
+  const recorded = collectRecordedHashes(await fsp.readFile(info.vcsPath, 'utf8'));
+
+  const rangePick = await vscode.window.showQuickPick(
+    [
+      {
+        label: 'Since the last commit in vcs.md',
+        description: recorded.size === 0 ? 'nothing recorded yet: whole history' : undefined,
+        range: { kind: 'since-last' } as BackfillRange | undefined
+      },
+      { label: 'Since a date…', range: undefined },
+      { label: 'Whole history', description: 'only commits not in vcs.md yet', range: { kind: 'all' } as BackfillRange }
+    ],
+    { title: `Foam Central: backfill VCS log for ${info.name}` }
+  );
+  if (!rangePick) return;
+
+  let range = rangePick.range;
+  if (!range) {
+    const date = await vscode.window.showInputBox({
+      title: 'Foam Central: backfill VCS log',
+      prompt: 'First day to backfill',
+      placeHolder: 'YYYY-MM-DD',
+      validateInput: value => (/^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? undefined : 'Use the YYYY-MM-DD format')
+    });
+    if (!date) return;
+    range = { kind: 'since-date', date: date.trim() };
+  }
+
+  const commits = await listMissingCommits(git, range, recorded);
+  if (commits.length === 0) {
+    vscode.window.showInformationMessage(`Foam Central: the VCS log of "${info.name}" is up to date.`);
+    return;
+  }
+
+  const targetPick = await vscode.window.showQuickPick(
+    [
+      { label: 'vcs.md only', withDailyNotes: false },
+      {
+        label: 'vcs.md and daily notes',
+        description: 'creates missing daily notes for those days',
+        withDailyNotes: true
+      }
+    ],
+    { title: `Foam Central: add ${commits.length} commit(s) to the VCS log of ${info.name}` }
+  );
+  if (!targetPick) return;
+
+  const issueRules = getIssueRules();
+  const formatText = (text: string) => linkIssueReferences(text, issueRules);
+
+  await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: 'Foam Central: backfilling VCS log' },
+    async progress => {
+      const dailySlugs = new Map<string, string>(); // commit hash -> daily note slug
+
+      if (targetPick.withDailyNotes) {
+        const projectRef = `[[projects/${info.slug}/home]]`;
+        const byDay = new Map<string, CommitInfo[]>();
+        for (const commit of commits) {
+          const day = getDailyNoteSlug(new Date(commit.date));
+          byDay.set(day, [...(byDay.get(day) ?? []), commit]);
+        }
+
+        for (const [day, dayCommits] of byDay) {
+          progress.report({ message: day });
+          // Only the daily note: a past week's new todo.md would carry over and archive tasks
+          const isToday = day === getDailyNoteSlug(new Date());
+          const { slug, uri } = await ensureDailyNoteFile(notesFolder, parseIsoDay(day), isToday);
+          await rewriteFile(uri.fsPath, content => {
+            const present = collectRecordedHashes(content);
+            const lines = dayCommits
+              .filter(commit => !present.has(shortHash(commit.hash)))
+              .map(commit => [formatHistoricalDailyLine(commit, projectRef, formatText)]);
+            return insertEntriesIntoSection(content, '## Log', lines, { sortKey: getEntrySortKey });
+          });
+          for (const commit of dayCommits) {
+            dailySlugs.set(commit.hash, slug);
+          }
+        }
+      }
+
+      const layout = getJournalLayout(notesFolder);
+      const issueEntries = commits.flatMap(commit => {
+        const when = new Date(commit.date);
+        const dailyLink = `[[${dailySlugs.get(commit.hash) ?? getJournalSlug(layout, when)}|${getDailyNoteSlug(when)}]]`;
+        const kind = commit.parents.length > 1 ? 'MERGE' : 'COMMIT';
+        return getIssueCommitEntries(commit, kind, undefined, issueRules, dailyLink, formatTime(when));
+      });
+
+      const issuesByCommit = new Map<string, typeof issueEntries>();
+      for (const entry of issueEntries) {
+        const hash = entry.hash ?? '';
+        issuesByCommit.set(hash, [...(issuesByCommit.get(hash) ?? []), entry]);
+      }
+
+      progress.report({ message: 'vcs.md' });
+      // All entries in one pass: the lock is held briefly even for a long history
+      await rewriteFile(info.vcsPath, content => {
+        // Re-read under the lock: another window may have logged some of them meanwhile
+        const present = collectRecordedHashes(content);
+        const entries = commits
+          .filter(commit => !present.has(shortHash(commit.hash)))
+          .map(commit => {
+            const entry = formatHistoricalVcsEntry(commit, dailySlugs.get(commit.hash), formatText);
+            const commitIssues = issuesByCommit.get(commit.hash) ?? [];
+            if (commitIssues.length > 0) {
+              entry.push(`- Issues: ${formatIssueNoteLinks(info, commitIssues)}`);
+            }
+            return entry;
+          });
+        return insertEntriesIntoSection(content, `# VCS log for ${info.name}`, entries, {
+          sortKey: getEntrySortKey,
+          blankLineBetween: true,
+          otherTitles: isProjectVcsTitle
+        });
+      });
+
+      if (issueEntries.length > 0) {
+        progress.report({ message: 'issue notes' });
+        await addToIssueNotes(info, issueEntries);
+      }
+    }
+  );
+
+  logChannel.appendLine(`backfillVcsLog: ${commits.length} commit(s) for ${info.slug} (${range.kind})`);
+  vscode.window.showInformationMessage(
+    `Foam Central: added ${commits.length} commit(s) to the VCS log of "${info.name}".`
+  );
+}
+
+/* ---------- Command: quick log ---------- */
+
+type QuickLogKind = 'NOTE' | 'TODO' | 'IDEA' | 'DECISION' | 'BLOCKER';
+
+// Input prefix -> kind written to the daily note and the home.md section it is mirrored to
+const QUICK_LOG_PREFIXES: Record<string, { kind: QuickLogKind; section: string }> = {
+  todo: { kind: 'TODO', section: 'Tasks' },
+  idea: { kind: 'IDEA', section: 'Ideas' },
+  decision: { kind: 'DECISION', section: 'Decisions' },
+  blocker: { kind: 'BLOCKER', section: 'Blockers' }
+};
+
+interface CodeReference {
+  relativePath: string;   // relative to the repository (or workspace folder) root
+  startLine: number;      // 1-based, inclusive
+  endLine: number;
+  commit: string | undefined;
+}
+
+async function quickLogCommand(): Promise<void> {
+  const notesFolder = getNotesFolder();
+  if (!notesFolder) {
+    vscode.window.showErrorMessage('Foam Central: notes folder is not configured, cannot log.');
+    return;
+  }
+
+  // Captured before the input box takes focus
+  const editor = vscode.window.activeTextEditor;
+  const codeRef = editor && !editor.selection.isEmpty ? getCodeReference(editor) : undefined;
+
+  const input = await vscode.window.showInputBox({
+    title: 'Foam Central: Quick Log',
+    prompt:
+      'Start with todo:, idea:, decision: or blocker: to file the entry under that section' +
+      (codeRef ? ` (selection: ${formatCodeReference(codeRef)})` : ''),
+    placeHolder: 'e.g. decision: keep the parser synchronous',
+    validateInput: value => (value.trim().length === 0 ? 'Nothing to log' : undefined)
+  });
+  if (!input) return;
+
+  const m = /^\s*(todo|idea|decision|blocker)\s*:\s*/i.exec(input);
+  const prefix = m ? QUICK_LOG_PREFIXES[m[1].toLowerCase()] : undefined;
+  const kind: QuickLogKind = prefix?.kind ?? 'NOTE';
+  const text = (m ? input.slice(m[0].length) : input).trim();
+  if (!text) return;
+
+  const info = await pickProject(editor, 'Project to log this entry for');
+  if (info === null) return; // cancelled
+
+  const now = new Date();
+  const timeStr = formatTime(now);
+  const dateStr = getDailyNoteSlug(now);
+  const refStr = codeRef ? ` (${formatCodeReference(codeRef)})` : '';
+  const projectRef = info ? ` [[projects/${info.slug}/home]]` : '';
+
+  const dailySlug = await appendToDailyNote([`- ${timeStr} [${kind}]${projectRef} ${text}${refStr}`]);
+  if (!dailySlug) return;
+
+  await recordActivity({
+    kind: 'NOTE',
+    timestamp: now,
+    projectSlug: info?.slug ?? '',
+    projectPath: info?.path ?? '',
+    hash: codeRef?.commit ?? null,
+    details: {
+      category: kind.toLowerCase(),
+      text,
+      ...(codeRef
+        ? { file: codeRef.relativePath, startLine: codeRef.startLine, endLine: codeRef.endLine }
+        : {})
+    }
+  });
+
+  if (info) {
+    const journalLink = `[[${dailySlug}|${dateStr}]]`;
+    const homeLine = kind === 'TODO'
+      ? `- [ ] ${text}${refStr} — ${journalLink}`
+      : `- ${journalLink} ${timeStr} ${text}${refStr}`;
+    try {
+      await insertIntoNoteSection(info.homePath, `## ${prefix?.section ?? 'Activity'}`, [homeLine]);
+    } catch (err) {
+      console.error('Foam Central: failed to mirror quick log in home.md', err);
+      logChannel.appendLine('quickLog: failed to update home.md: ' + String(err));
+    }
+  }
+
+  vscode.window.setStatusBarMessage(`Foam Central: logged to ${dailySlug}`, 3000);
+}
+
+/**
+ * The project a command applies to: the only one open, the one containing the
+ * active file, or the user's pick. `null` if the pick was cancelled, undefined
+ * if there is no project in this window.
+ */
+async function pickProject(
+  editor: vscode.TextEditor | undefined,
+  placeHolder: string
+): Promise<ProjectInfo | undefined | null> {
+  const all = Array.from(projects.values());
+  if (all.length <= 1) {
+    return all[0];
+  }
+
+  if (editor) {
+    const folder = vscode.workspace.getWorkspaceFolder(editor.document.uri);
+    const info = folder && projects.get(normalizePath(folder.uri.fsPath));
+    if (info) return info;
+  }
+
+  const pick = await vscode.window.showQuickPick(
+    all.map(info => ({ label: info.name, description: info.path, info })),
+    { placeHolder }
+  );
+  return pick ? pick.info : null;
+}
+
+function getCodeReference(editor: vscode.TextEditor): CodeReference {
+  const uri = editor.document.uri;
+  const { start, end } = editor.selection;
+  // A selection ending at the start of a line does not include that line.
+  const endLine = end.character === 0 && end.line > start.line ? end.line : end.line + 1;
+
+  const repo = findRepositoryForPath(uri.fsPath);
+  const root = repo?.rootUri.fsPath ?? vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath;
+  const relativePath = root ? path.relative(root, uri.fsPath) : path.basename(uri.fsPath);
+
+  return {
+    relativePath: relativePath.split(path.sep).join('/'),
+    startLine: start.line + 1,
+    endLine,
+    commit: repo?.state.HEAD?.commit
+  };
+}
+
+// e.g. `src/parser.ts#L10-L24` @ `3f2c9d1`
+function formatCodeReference(ref: CodeReference): string {
+  const lines = ref.startLine === ref.endLine ? `L${ref.startLine}` : `L${ref.startLine}-L${ref.endLine}`;
+  const at = ref.commit ? ` @ \`${ref.commit.slice(0, 7)}\`` : '';
+  return `\`${ref.relativePath}#${lines}\`${at}`;
+}
+
+/* ---------- Task view ---------- */
+
+function isInNoiseDir(filePath: string): boolean {
+  return filePath.split(/[\\/]/).some(part => NOISE_DIRS.has(part.toLowerCase()));
+}
+
+function initTaskView(context: vscode.ExtensionContext): void {
+  const notesFolder = getNotesFolder();
+  if (notesFolder) {
+    taskTreeProvider = new TaskTreeProvider({
+      notesFolder,
+      projectsFolderName: getProjectNotesFolderName(),
+      getLayout: () => getJournalLayout(notesFolder),
+      listMarkdownFiles,
+      isIgnored: isInNoiseDir
+    });
+
+    context.subscriptions.push(
+      taskTreeProvider,
+      vscode.window.registerTreeDataProvider('foamCentral.tasks', taskTreeProvider)
+    );
+
+    taskTreeProvider.rebuild().catch(err => {
+      logChannel.appendLine('Task index build failed: ' + String(err));
+    });
+  }
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('foamCentral.refreshTasks', async () => {
+      await taskTreeProvider?.rebuild();
+    }),
+    vscode.commands.registerCommand('foamCentral.openTask', async (node: unknown) => {
+      const task = getTaskFromNode(node);
+      if (task) {
+        await openTask(task);
+      }
+    }),
+    vscode.commands.registerCommand('foamCentral.toggleTask', async (node: unknown) => {
+      const task = getTaskFromNode(node);
+      if (!task) return;
+
+      try {
+        const done = await toggleTaskDone(task);
+        if (!done) {
+          vscode.window.showWarningMessage(
+            'Foam Central: the task was not found in its note any more (it may have been edited).'
+          );
+          await taskTreeProvider?.rebuild();
+        }
+      } catch (err) {
+        vscode.window.showErrorMessage('Foam Central: Failed to update task: ' + String(err));
+      }
+    })
   );
+}
+
+/* ---------- Daily note scheduler ---------- */
+
+async function startDailyNoteScheduler(): Promise<void> {
+  const notesFolder = getNotesFolder();
+  if (!notesFolder) {
+    return;
+  }
+
+  try {
+    await ensureDailyNoteFile(notesFolder, new Date());
+    logChannel.appendLine('startDailyNoteScheduler: ensured today daily note exists');
+  } catch (err) {
+    console.error('Foam Central: failed to ensure today daily note', err);
+    logChannel.appendLine('startDailyNoteScheduler: error ensuring today note: ' + String(err));
+  }
+
+  const scheduleNext = () => {
+    const now = new Date();
+    const tomorrow = new Date(now);
+    tomorrow.setDate(now.getDate() + 1);
+    tomorrow.setHours(0, 0, 5, 0); // 00:00:05
+
+    const delay = tomorrow.getTime() - now.getTime();
+    if (dailyNoteTimer) {
+      clearTimeout(dailyNoteTimer);
+    }
+
+    dailyNoteTimer = setTimeout(async () => {
+      const nf = getNotesFolder();
+      if (nf) {
+        try {
+          await ensureDailyNoteFile(nf, new Date());
+          logChannel.appendLine('Daily scheduler: ensured new daily note exists');
+        } catch (err) {
+          console.error('Foam Central: failed to ensure next daily note', err);
+          logChannel.appendLine('Daily scheduler error: ' + String(err));
+        }
+      }
+      scheduleNext();
+    }, delay);
+  };
+
+  scheduleNext();
+}
+
+/* ----------- Git support ----------------*/
+
+async function initNotesGitSync(notesFolder: string, context: vscode.ExtensionContext): Promise<void> {
+  const config = vscode.workspace.getConfiguration('foamCentral');
+  const autoEnabled = config.get<boolean>('notesGit.autoSyncEnabled') ?? false;
+  if (!autoEnabled) {
+    logChannel.appendLine('Foam Central: notes Git auto-sync disabled in settings.');
+    return;
+  }
+
+  const root = findGitRoot(notesFolder);
+  if (!root) {
+    logChannel.appendLine('Foam Central: notes folder is not inside a Git repo; skipping auto-sync.');
+    return;
+  }
+
+  notesGitRoot = root;
+  notesDirty = false;
+  notesSaveCount = 0;
+  notesLastSyncTime = Date.now();
+  notesSyncInProgress = false;
+
+  logChannel.appendLine(`Foam Central: notes Git root = ${notesGitRoot}`);
+
+  try {
+    await ensureNotesGitIgnore(notesFolder);
+    await ensureNotesGitAttributes(notesFolder);
+  } catch (err) {
+    logChannel.appendLine('Foam Central: failed to update .gitignore / .gitattributes: ' + String(err));
+  }
+  try {
+    await setupNotesEncryption(context, notesFolder, root, false);
+  } catch (err) {
+    logChannel.appendLine('Foam Central: failed to set up notes encryption: ' + String(err));
+  }
+  // A pull may have stopped on conflicts before the window was reloaded
+  void refreshNotesConflicts().catch(err => {
+    logChannel.appendLine('Foam Central: failed to list sync conflicts: ' + String(err));
+  });
+
+  if (!notesStatusBarItem) {
+    notesStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+    notesStatusBarItem.name = 'Foam Central Notes Sync';
+    notesStatusBarItem.command = 'foamCentral.showSyncHistory';
+    context.subscriptions.push(notesStatusBarItem);
+  }
+  renderNotesStatusBar();
+  startNotesFetchTimer(context);
+  void vscode.commands.executeCommand('setContext', 'foamCentral.notesSyncEnabled', true);
+
+  // Watch saves in notes folder
+  const notesNorm = normalizePath(notesFolder);
+  const saveDisposable = vscode.workspace.onDidSaveTextDocument(doc => {
+    if (doc.uri.scheme !== 'file') return;
+    const fsPath = normalizePath(doc.uri.fsPath);
+    if (!fsPath.startsWith(notesNorm)) return;
+
+    const cfg = vscode.workspace.getConfiguration('foamCentral');
+    if (cfg.get<boolean>('encryption.enabled') && doc.languageId === 'markdown') {
+      // `encrypt: true` added or removed in the front matter
+      void ensureNotesEncryptionAttributes(notesFolder, root, [doc.uri.fsPath]).catch(err => {
+        logChannel.appendLine('Foam Central: failed to update encrypted notes: ' + String(err));
+      });
+    }
+    if (!cfg.get<boolean>('notesGit.autoSyncEnabled')) return;
+
+    notesDirty = true;
+    notesSaveCount += 1;
+
+    const threshold = cfg.get<number>('notesGit.saveCountThreshold') ?? 10;
+    logChannel.appendLine(
+      `Foam Central: notes save detected (${notesSaveCount}/${threshold}) for ${doc.uri.fsPath}`
+    );
+
+    if (notesSaveCount >= threshold) {
+      void runNotesSync('save-threshold');
+    } else {
+      renderNotesStatusBar();
+    }
+  });
+
+  context.subscriptions.push(saveDisposable);
+
+  // Timer-based sync (every minute)
+  notesSyncTimer = setInterval(() => {
+    void maybeTimerSyncNotes();
+  }, 60 * 1000);
+
+  context.subscriptions.push({
+    dispose: () => {
+      if (notesSyncTimer) {
+        clearInterval(notesSyncTimer);
+        notesSyncTimer = undefined;
+      }
+    }
+  });
 
-  await ensureProjectFiles(notesFolder, currentProject);
-  await logProjectOpen(currentProject);
-  setupGitLoggingForProject(currentProject);
+  // Bring in what other machines pushed (today's daily note waits for it), then
+  // warn if the repo is still behind
+  void autoPullNotes('activation')
+    .then(() => (getNotesAutoPull() === 'off' ? fetchNotes() : undefined))
+    .then(() => checkNotesRemoteAheadOnStartup());
 }
 
+async function maybeTimerSyncNotes(): Promise<void> {
+  if (!notesGitRoot) return;
+  renderNotesStatusBar(); // countdown
+  if (!notesDirty) return;
 
-/* ---------- Daily note scheduler ---------- */
+  const cfg = vscode.workspace.getConfiguration('foamCentral');
+  const minutesThreshold = cfg.get<number>('notesGit.minutesThreshold') ?? 10;
+  const elapsedMinutes = (Date.now() - notesLastSyncTime) / 60000;
 
-async function startDailyNoteScheduler(): Promise<void> {
-  const notesFolder = getNotesFolder();
-  if (!notesFolder) {
+  if (elapsedMinutes < minutesThreshold) {
     return;
   }
 
+  logChannel.appendLine(
+    `Foam Central: timer-based notes sync triggered after ${elapsedMinutes.toFixed(1)} minutes`
+  );
+
+  await runNotesSync('timer');
+}
+
+async function getNotesAheadBehind(): Promise<{ ahead: number; behind: number; hasUpstream: boolean }> {
+  if (!notesGitRoot) {
+    return { ahead: 0, behind: 0, hasUpstream: false };
+  }
+
   try {
-    await ensureDailyNoteFile(notesFolder, new Date());
-    logChannel.appendLine('startDailyNoteScheduler: ensured today daily note exists');
-  } catch (err) {
-    console.error('Foam Central: failed to ensure today daily note', err);
-    logChannel.appendLine('startDailyNoteScheduler: error ensuring today note: ' + String(err));
+    const { stdout } = await runGit(
+      ['rev-list', '--left-right', '--count', 'HEAD...@{u}'],
+      notesGitRoot
+    );
+    const trimmed = stdout.trim();
+    if (!trimmed) {
+      return { ahead: 0, behind: 0, hasUpstream: false };
+    }
+    const [left, right] = trimmed.split(/\s+/);
+    const ahead = parseInt(left || '0', 10) || 0;
+    const behind = parseInt(right || '0', 10) || 0;
+    return { ahead, behind, hasUpstream: true };
+  } catch (err: any) {
+    // Probably no upstream configured
+    logChannel.appendLine(
+      `Foam Central: getNotesAheadBehind failed (likely no upstream): ${err.message || err}`
+    );
+    return { ahead: 0, behind: 0, hasUpstream: false };
   }
+}
 
-  const scheduleNext = () => {
-    const now = new Date();
-    const tomorrow = new Date(now);
-    tomorrow.setDate(now.getDate() + 1);
-    tomorrow.setHours(0, 0, 5, 0); // 00:00:05
+async function checkNotesRemoteAheadOnStartup(): Promise<void> {
+  if (!notesGitRoot) return;
+  const { behind, hasUpstream } = await getNotesAheadBehind();
+  if (hasUpstream && behind > 0) {
+    vscode.window.showWarningMessage(
+      `Foam Central: your notes repo at "${notesGitRoot}" is behind its upstream by ${behind} commit(s). ` +
+      `Consider pulling before relying on auto-sync.`
+    );
+  }
+}
 
-    const delay = tomorrow.getTime() - now.getTime();
-    if (dailyNoteTimer) {
-      clearTimeout(dailyNoteTimer);
+async function runNotesSync(reason: 'save-threshold' | 'timer' | 'manual'): Promise<void> {
+  const cfg = vscode.workspace.getConfiguration('foamCentral');
+  const autoEnabled = cfg.get<boolean>('notesGit.autoSyncEnabled') ?? false;
+  if (!autoEnabled) {
+    logChannel.appendLine('Foam Central: notes Git auto-sync disabled, skipping.');
+    return;
+  }
+
+  if (!notesGitRoot) {
+    logChannel.appendLine('Foam Central: notes Git root not set, skipping sync.');
+    return;
+  }
+
+  if (notesSyncInProgress) {
+    logChannel.appendLine('Foam Central: notes sync already in progress, skipping.');
+    return;
+  }
+
+  notesSyncInProgress = true;
+  renderNotesStatusBar();
+  const attempt: SyncAttempt = { time: new Date().toISOString(), reason, outcome: 'failed', files: [], push: 'skipped' };
+  try {
+    // Encrypted notes must not be committed (or merged) without the key
+    if (notesEncryptionActive && !notesCryptKey) {
+      logChannel.appendLine('Foam Central: notes encryption is locked, skipping sync.');
+      attempt.outcome = 'skipped';
+      attempt.error = 'Notes encryption is locked; set the passphrase to sync';
+      return;
     }
 
-    dailyNoteTimer = setTimeout(async () => {
-      const nf = getNotesFolder();
-      if (nf) {
+    // A pull that stopped on conflicts is finished first; until then the sync waits
+    if (!(await continueNotesPull())) {
+      logChannel.appendLine('Foam Central: notes sync paused until the sync conflicts are resolved.');
+      attempt.outcome = 'paused';
+      attempt.error = 'Unresolved sync conflicts';
+      return;
+    }
+
+    // Any changes at all? (within the staging scope and rules)
+    const gitRoot = notesGitRoot;
+    const selection = await selectNotesChanges(gitRoot);
+    const hasChanges = selection.changed.length > 0;
+    attempt.files = selection.changed;
+
+    // Check ahead/behind vs upstream
+    const { ahead, behind, hasUpstream } = await getNotesAheadBehind();
+
+    // Commits left by a resumed pull still need a push
+    if (!hasChanges && !(hasUpstream && ahead > 0)) {
+      logChannel.appendLine('Foam Central: no changes to commit in notes repo.');
+      notesDirty = false;
+      notesSaveCount = 0;
+      notesLastSyncTime = Date.now();
+      if (behind === 0) {
+        notesLastSyncAt = new Date();
+      }
+      attempt.outcome = 'no-changes';
+      return;
+    }
+
+    const strategy = getNotesPullStrategy();
+    if (strategy === 'ff-only' && hasUpstream && behind > 0) {
+      const choice = await vscode.window.showWarningMessage(
+        `Foam Central: notes repo at "${notesGitRoot}" is behind its upstream by ` +
+        `${behind} commit(s). Auto-push is paused. Do you want to pull and merge now?`,
+        'Pull Now',
+        'Skip'
+      );
+
+      if (choice === 'Pull Now') {
         try {
-          await ensureDailyNoteFile(nf, new Date());
-          logChannel.appendLine('Daily scheduler: ensured new daily note exists');
-        } catch (err) {
-          console.error('Foam Central: failed to ensure next daily note', err);
-          logChannel.appendLine('Daily scheduler error: ' + String(err));
+          // Safe-ish: fast-forward only, no auto-merge commit
+          const gitRoot = notesGitRoot;
+          await withNotesLock('notes pull', () => runNotesGit(['pull', '--ff-only'], gitRoot));
+          vscode.window.showInformationMessage('Foam Central: git pull completed for notes repo.');
+        } catch (err: any) {
+          vscode.window.showErrorMessage(
+            'Foam Central: git pull --ff-only failed for notes repo. If the history has diverged, set ' +
+            '"foamCentral.notesGit.pullStrategy" to "rebase" or "merge".\n' +
+            (err.stderr || err.message || String(err))
+          );
+          attempt.error = 'git pull --ff-only failed: ' + (err.stderr || err.message || String(err));
+          // Don't auto-push if pull failed
+          return;
         }
+      } else {
+        // User chose Skip → don't push
+        logChannel.appendLine('Foam Central: user skipped pull, not pushing notes repo.');
+        attempt.outcome = 'skipped';
+        attempt.error = `Behind upstream by ${behind} commit(s); pull skipped`;
+        return;
       }
-      scheduleNext();
-    }, delay);
+    }
+
+    // Commit
+    if (hasChanges) {
+      const template = cfg.get<string>('notesGit.commitMessage') || 'Foam Central auto-commit ({reason})';
+      const message = template
+        .split('{reason}').join(reason)
+        .split('{count}').join(String(selection.changed.length))
+        .split('{files}').join(await getChangedNoteTitles(gitRoot, selection.changed));
+
+      try {
+        // Stage and commit under the write lock, so no half-written note is committed
+        await withNotesLock('notes sync commit', async () => {
+          if (notesEncryptionActive) {
+            await addNotesEncryptionAttributes(gitRoot, selection);
+          }
+          await commitNotesFiles(gitRoot, selection, message);
+        });
+        attempt.outcome = 'committed';
+        attempt.commit = (await runGit(['rev-parse', 'HEAD'], gitRoot)).stdout.trim();
+        logChannel.appendLine(`Foam Central: committed notes changes with message "${message}".`);
+      } catch (err: any) {
+        // Ignore "nothing to commit" race
+        const msg = err.stderr || err.message || String(err);
+        if (/nothing to commit|no changes added/i.test(msg)) {
+          logChannel.appendLine('Foam Central: nothing to commit (race), skipping push.');
+          attempt.outcome = 'no-changes';
+          notesDirty = false;
+          notesSaveCount = 0;
+          notesLastSyncTime = Date.now();
+          return;
+        }
+        throw err;
+      }
+    }
+
+    // Rebase or merge onto the upstream; conflicts pause the sync
+    if (strategy !== 'ff-only' && hasUpstream && !(await pullNotes(gitRoot, strategy))) {
+      const conflicts = conflictTreeProvider?.getConflicts().length ?? 0;
+      attempt.outcome = conflicts > 0 ? 'paused' : 'failed';
+      attempt.error = conflicts > 0 ? `${conflicts} conflict(s) after git pull (${strategy})` : `git pull (${strategy}) failed`;
+      return;
+    }
+
+    // Push (if we have a remote)
+    try {
+      await runGit(['push'], notesGitRoot);
+      notesLastSyncAt = new Date();
+      attempt.outcome = 'pushed';
+      attempt.push = 'ok';
+      logChannel.appendLine(
+        `Foam Central: pushed notes repo (ahead was ${ahead}, now synchronized).`
+      );
+    } catch (err: any) {
+      vscode.window.showWarningMessage(
+        'Foam Central: git push failed for notes repo. Check remote configuration.\n' +
+        (err.stderr || err.message || String(err))
+      );
+      attempt.push = 'failed';
+      attempt.error = 'git push failed: ' + (err.stderr || err.message || String(err));
+    }
+
+    notesDirty = false;
+    notesSaveCount = 0;
+    notesLastSyncTime = Date.now();
+  } catch (err: any) {
+    logChannel.appendLine('Foam Central: error during notes sync: ' + (err.message || String(err)));
+    attempt.outcome = 'failed';
+    attempt.error = err.stderr || err.message || String(err);
+  } finally {
+    notesSyncInProgress = false;
+    await recordSyncAttempt(attempt);
+    await updateNotesStatus();
+  }
+}
+
+/* ---------- Notes staging (what the auto-commit includes) ---------- */
+
+function getNotesStagingOptions(gitRoot: string, notesFolder: string): StagingOptions {
+  const cfg = vscode.workspace.getConfiguration('foamCentral');
+  const maxMB = cfg.get<number>('notesGit.maxFileSizeMB') ?? 10;
+  return {
+    repoRoot: gitRoot,
+    scopeDir: cfg.get<string>('notesGit.stagingScope') === 'repository' ? gitRoot : notesFolder,
+    notesFolder,
+    include: cfg.get<string[]>('notesGit.include') ?? [],
+    exclude: cfg.get<string[]>('notesGit.exclude') ?? [],
+    maxFileBytes: Math.max(0, maxMB) * 1024 * 1024
   };
+}
 
-  scheduleNext();
+/** The changes the auto-commit would include; files left out are logged. */
+async function selectNotesChanges(gitRoot: string): Promise<StagingSelection> {
+  const notesFolder = getNotesFolder() ?? gitRoot;
+  const selection = await selectChangesToCommit(getNotesGitRunner(gitRoot), getNotesStagingOptions(gitRoot, notesFolder));
+
+  for (const { file, reason } of selection.skipped) {
+    logChannel.appendLine(`Foam Central: not committing ${file} (${reason}).`);
+    // Too large: tell the user once per session, the other rules are deliberate
+    if (/ MB$/.test(reason) && !notesLargeFilesWarned.has(file)) {
+      notesLargeFilesWarned.add(file);
+      vscode.window.showWarningMessage(
+        `Foam Central: "${file}" (${reason}) is larger than foamCentral.notesGit.maxFileSizeMB and is not auto-committed.`
+      );
+    }
+  }
+  return selection;
 }
 
-/* ----------- Git support ----------------*/
+/**
+ * Lists the selected notes flagged `encrypt: true` (since the last save, by a
+ * pull or outside VS Code) in .gitattributes before they are staged, so none
+ * is committed in plain text; a changed .gitattributes joins the selection.
+ */
+async function addNotesEncryptionAttributes(gitRoot: string, selection: StagingSelection): Promise<void> {
+  const notesFolder = getNotesFolder() ?? gitRoot;
+  const notes = selection.stage
+    .map(file => path.join(gitRoot, file))
+    .filter(filePath => /\.md$/i.test(filePath) && !path.relative(notesFolder, filePath).startsWith('..'));
+  const changed = await ensureNotesEncryptionAttributes(notesFolder, gitRoot, notes);
+  // Also when unchanged: a block that git cannot read must stop every commit
+  await checkNotesEncryptionAttributes(notesFolder, gitRoot);
+  if (!changed) {
+    return;
+  }
+  const attributesFile = path.relative(gitRoot, path.join(notesFolder, '.gitattributes')).replace(/\\/g, '/');
+  for (const list of [selection.stage, selection.files]) {
+    if (!list.includes(attributesFile)) {
+      list.push(attributesFile);
+    }
+  }
+}
 
-async function initNotesGitSync(notesFolder: string, context: vscode.ExtensionContext): Promise<void> {
-  const config = vscode.workspace.getConfiguration('foamCentral');
-  const autoEnabled = config.get<boolean>('notesGit.autoSyncEnabled') ?? false;
-  if (!autoEnabled) {
-    logChannel.appendLine('Foam Central: notes Git auto-sync disabled in settings.');
+/** Stages and commits exactly the selected files, whatever else is in the index. */
+async function commitNotesFiles(gitRoot: string, selection: StagingSelection, message: string): Promise<void> {
+  // Pathspec files: the lists can be longer than a command line allows
+  const listBase = path.join(os.tmpdir(), `foam-central-commit-${process.pid}-${Date.now()}`);
+  const withPathspec = async (files: string[], suffix: string, args: string[]) => {
+    const listPath = `${listBase}-${suffix}.txt`;
+    await fsp.writeFile(listPath, files.join('\0'), { encoding: 'utf8' });
+    try {
+      await runNotesGit([...args, `--pathspec-from-file=${listPath}`, '--pathspec-file-nul'], gitRoot);
+    } finally {
+      await fsp.unlink(listPath).catch(() => undefined);
+    }
+  };
+
+  if (selection.stage.length > 0) {
+    await withPathspec(selection.stage, 'add', ['add', '-A']);
+  }
+  await withPathspec(selection.files, 'commit', ['commit', '-m', message]);
+}
+
+/** Adds the managed block of OS and editor junk to the notes folder's .gitignore. */
+async function ensureNotesGitIgnore(notesFolder: string): Promise<void> {
+  const filePath = path.join(notesFolder, '.gitignore');
+  let existing = '';
+  try {
+    existing = await fsp.readFile(filePath, 'utf8');
+  } catch {
+    // created below
+  }
+  const updated = updateGitIgnore(existing);
+  if (updated !== existing) {
+    await fsp.writeFile(filePath, updated, { encoding: 'utf8' });
+    logChannel.appendLine(`Foam Central: updated ${filePath}.`);
+  }
+}
+
+/* ---------- Notes encryption (git clean/smudge filter) ---------- */
+
+const ENCRYPTION_PASSPHRASE_SECRET = 'foamCentral.encryption.passphrase';
+
+/** runGit for the notes repo: git's filter processes get the encryption key once it is unlocked. */
+function runNotesGit(
+  args: string[],
+  gitRoot: string,
+  options: { env?: NodeJS.ProcessEnv; timeout?: number } = {}
+): Promise<{ stdout: string; stderr: string }> {
+  const env = notesCryptKey ? { [NOTES_KEY_ENV]: notesCryptKey.toString('hex'), ...options.env } : options.env;
+  return runGit(args, gitRoot, { ...options, env });
+}
+
+/**
+ * Installs the filter and unlocks the key when encryption is enabled here or
+ * the repo already has encrypted notes (set up on another machine). With
+ * `prompt`, a missing passphrase is asked for right away.
+ */
+async function setupNotesEncryption(
+  context: vscode.ExtensionContext,
+  notesFolder: string,
+  gitRoot: string,
+  prompt: boolean
+): Promise<void> {
+  const enabled = vscode.workspace.getConfiguration('foamCentral').get<boolean>('encryption.enabled') ?? false;
+  const attributes = await fsp.readFile(path.join(notesFolder, '.gitattributes'), 'utf8').catch(() => '');
+  notesEncryptionActive = enabled || hasEncryptionAttributes(attributes);
+  if (!notesEncryptionActive) {
     return;
   }
 
-  const root = findGitRoot(notesFolder);
-  if (!root) {
-    logChannel.appendLine('Foam Central: notes folder is not inside a Git repo; skipping auto-sync.');
+  const filterScript = path.join(context.extensionPath, 'out', 'notesCryptFilter.js');
+  for (const [key, value] of getCryptFilterConfig(process.execPath, filterScript)) {
+    await runGit(['config', '--local', key, value], gitRoot);
+  }
+
+  if (!(await unlockNotesEncryption(context, notesFolder, gitRoot, prompt))) {
+    if (prompt) {
+      throw new Error('notes encryption is enabled, but no passphrase was set');
+    }
+    // Not awaited: activation must not wait for the notification to be answered
+    void vscode.window
+      .showWarningMessage(
+        'Foam Central: the notes repo has encrypted notes. Set the encryption passphrase to sync them.',
+        'Set Passphrase'
+      )
+      .then(choice => (choice === 'Set Passphrase' ? setEncryptionPassphraseCommand(context) : undefined))
+      .then(undefined, err => {
+        logChannel.appendLine('Foam Central: failed to set the encryption passphrase: ' + String(err));
+      });
     return;
   }
+  if (enabled) {
+    await ensureNotesEncryptionAttributes(notesFolder, gitRoot);
+  }
+}
 
-  notesGitRoot = root;
-  notesDirty = false;
-  notesSaveCount = 0;
-  notesLastSyncTime = Date.now();
-  notesSyncInProgress = false;
+/** Derives the key from the stored passphrase (or, with `prompt`, an entered one). */
+async function unlockNotesEncryption(
+  context: vscode.ExtensionContext,
+  notesFolder: string,
+  gitRoot: string,
+  prompt: boolean
+): Promise<boolean> {
+  if (notesCryptKey) {
+    return true;
+  }
+  const stored = await context.secrets.get(ENCRYPTION_PASSPHRASE_SECRET);
+  const config = await readEncryptionConfig(notesFolder);
+  if (stored && config) {
+    const key = await unlockEncryptionConfig(config, stored);
+    if (key) {
+      await useNotesCryptKey(key, notesFolder, gitRoot);
+      return true;
+    }
+    logChannel.appendLine('Foam Central: the stored encryption passphrase does not match .foam-central/encryption.json.');
+  }
+  if (prompt) {
+    return setEncryptionPassphraseCommand(context);
+  }
+  return false;
+}
 
-  logChannel.appendLine(`Foam Central: notes Git root = ${notesGitRoot}`);
+/** Asks for the passphrase; the first one creates .foam-central/encryption.json. */
+async function setEncryptionPassphraseCommand(context: vscode.ExtensionContext): Promise<boolean> {
+  const notesFolder = getNotesFolder();
+  if (!notesFolder) {
+    vscode.window.showWarningMessage('Foam Central: Notes folder is not configured.');
+    return false;
+  }
+  const gitRoot = findGitRoot(notesFolder) ?? notesFolder;
+  const config = await readEncryptionConfig(notesFolder);
+
+  const passphrase = await vscode.window.showInputBox({
+    title: 'Foam Central: Notes encryption passphrase',
+    prompt: config
+      ? 'The passphrase the notes were encrypted with (on any machine)'
+      : 'A new passphrase for encrypted notes. Without it they cannot be decrypted, so keep a copy somewhere safe.',
+    password: true,
+    ignoreFocusOut: true
+  });
+  if (!passphrase) {
+    return false;
+  }
 
-  // Watch saves in notes folder
-  const notesNorm = normalizePath(notesFolder);
-  const saveDisposable = vscode.workspace.onDidSaveTextDocument(doc => {
-    if (doc.uri.scheme !== 'file') return;
-    const fsPath = normalizePath(doc.uri.fsPath);
-    if (!fsPath.startsWith(notesNorm)) return;
+  let key: Buffer | undefined;
+  if (config) {
+    key = await unlockEncryptionConfig(config, passphrase);
+    if (!key) {
+      vscode.window.showErrorMessage('Foam Central: that is not the passphrase the notes were encrypted with.');
+      return false;
+    }
+  } else {
+    const confirm = await vscode.window.showInputBox({
+      title: 'Foam Central: Notes encryption passphrase',
+      prompt: 'Enter the passphrase again',
+      password: true,
+      ignoreFocusOut: true
+    });
+    if (confirm !== passphrase) {
+      vscode.window.showErrorMessage('Foam Central: the passphrases do not match.');
+      return false;
+    }
+    const created = await createEncryptionConfig(passphrase);
+    const configPath = path.join(notesFolder, ENCRYPTION_CONFIG_FILE);
+    await fsp.mkdir(path.dirname(configPath), { recursive: true });
+    await fsp.writeFile(configPath, JSON.stringify(created.config, null, 2) + '\n', { encoding: 'utf8' });
+    key = created.key;
+  }
 
-    const cfg = vscode.workspace.getConfiguration('foamCentral');
-    if (!cfg.get<boolean>('notesGit.autoSyncEnabled')) return;
+  await context.secrets.store(ENCRYPTION_PASSPHRASE_SECRET, passphrase);
+  notesEncryptionActive = true;
+  notesCryptKey = undefined;
+  await useNotesCryptKey(key, notesFolder, gitRoot);
+  if (vscode.workspace.getConfiguration('foamCentral').get<boolean>('encryption.enabled')) {
+    await ensureNotesEncryptionAttributes(notesFolder, gitRoot);
+  }
+  vscode.window.showInformationMessage('Foam Central: notes encryption unlocked.');
+  return true;
+}
 
-    notesDirty = true;
-    notesSaveCount += 1;
+/**
+ * Keeps the key (also in the git dir, for git clients other than this
+ * extension) and decrypts notes that were checked out while it was missing.
+ */
+async function useNotesCryptKey(key: Buffer, notesFolder: string, gitRoot: string): Promise<void> {
+  notesCryptKey = key;
+  const gitDir = (await runGit(['rev-parse', '--git-common-dir'], gitRoot)).stdout.trim();
+  await writeNotesKeyFile(path.resolve(gitRoot, gitDir), key);
+
+  const tracked = (await runGit(['ls-files', '-z', '--', notesFolder], gitRoot)).stdout.split('\0').filter(Boolean);
+  const stillEncrypted: string[] = [];
+  for (const file of tracked) {
+    if (await isEncryptedNoteFile(path.join(gitRoot, file))) {
+      stillEncrypted.push(file);
+    }
+  }
+  if (stillEncrypted.length === 0) {
+    return;
+  }
 
-    const threshold = cfg.get<number>('notesGit.saveCountThreshold') ?? 10;
-    logChannel.appendLine(
-      `Foam Central: notes save detected (${notesSaveCount}/${threshold}) for ${doc.uri.fsPath}`
+  await withNotesLock('decrypt notes', async () => {
+    // Only notes whose encrypted text is exactly what git has; git skips checking
+    // out files it considers up to date, so they are removed first
+    const modified = new Set(
+      (await runNotesGit(['diff', '--name-only', '-z', '--', ...stillEncrypted], gitRoot)).stdout.split('\0')
     );
-
-    if (notesSaveCount >= threshold) {
-      void runNotesSync('save-threshold');
+    const unchanged = stillEncrypted.filter(file => !modified.has(file));
+    for (const file of unchanged) {
+      await fsp.unlink(path.join(gitRoot, file));
+    }
+    if (unchanged.length > 0) {
+      await runNotesGit(['checkout', '--', ...unchanged], gitRoot);
+      logChannel.appendLine(`Foam Central: decrypted ${unchanged.length} note(s) checked out without the key.`);
     }
   });
+}
 
-  context.subscriptions.push(saveDisposable);
-
-  // Timer-based sync (every minute)
-  notesSyncTimer = setInterval(() => {
-    void maybeTimerSyncNotes();
-  }, 60 * 1000);
+/**
+ * Brings the encryption block of .gitattributes up to date: the configured
+ * folders plus the notes with `encrypt: true` (all notes, or just `changedFiles`).
+ * Notes that become encrypted are re-staged through the filter. Returns true
+ * if .gitattributes changed.
+ */
+function ensureNotesEncryptionAttributes(notesFolder: string, gitRoot: string, changedFiles?: string[]): Promise<boolean> {
+  // Read-modify-write under the lock: the save handler and the sync both update it
+  return withNotesLock('update .gitattributes', () => updateNotesEncryptionAttributes(notesFolder, gitRoot, changedFiles));
+}
 
-  context.subscriptions.push({
-    dispose: () => {
-      if (notesSyncTimer) {
-        clearInterval(notesSyncTimer);
-        notesSyncTimer = undefined;
-      }
+async function updateNotesEncryptionAttributes(notesFolder: string, gitRoot: string, changedFiles?: string[]): Promise<boolean> {
+  const folders = vscode.workspace.getConfiguration('foamCentral').get<string[]>('encryption.folders') ?? [];
+  const attributesPath = path.join(notesFolder, '.gitattributes');
+  const existing = await fsp.readFile(attributesPath, 'utf8').catch(() => '');
+  const toNotesPath = (filePath: string) => path.relative(notesFolder, filePath).replace(/\\/g, '/');
+
+  let files = getEncryptedFilesFromAttributes(existing);
+  const candidates = changedFiles ?? (await listMarkdownFiles(notesFolder));
+  for (const filePath of candidates) {
+    const notesPath = toNotesPath(filePath);
+    const flagged = /^(true|yes)$/i.test((await readFrontMatter(filePath)).encrypt ?? '');
+    // Still encrypted on disk (no key when it was checked out): keep it listed
+    const keep = flagged || (files.includes(notesPath) && (await isEncryptedNoteFile(filePath)));
+    files = files.filter(f => f !== notesPath).concat(keep ? [notesPath] : []);
+  }
+  // Deleted notes drop out
+  const existingFiles: string[] = [];
+  for (const file of files) {
+    if (fs.existsSync(path.join(notesFolder, file))) {
+      existingFiles.push(file);
     }
-  });
+  }
 
-  // On startup, just warn if remote is ahead (no auto-merge, no auto-commit)
-  void checkNotesRemoteAheadOnStartup();
+  const updated = updateEncryptionAttributes(existing, getEncryptionAttributes(folders, existingFiles.sort()));
+  if (updated === existing) {
+    return false;
+  }
+  await fsp.writeFile(attributesPath, updated, { encoding: 'utf8' });
+  logChannel.appendLine(`Foam Central: updated the encrypted notes in ${attributesPath}.`);
+  await checkNotesEncryptionAttributes(notesFolder, gitRoot);
+
+  // Committed notes only pass the new filter once git re-reads them
+  if (notesCryptKey) {
+    const paths = [...folders.map(f => path.join(notesFolder, f)), ...existingFiles.map(f => path.join(notesFolder, f))]
+      .filter(p => fs.existsSync(p));
+    if (paths.length > 0) {
+      await runNotesGit(['add', '--renormalize', '--', ...paths], gitRoot);
+    }
+  }
+  return true;
 }
 
-async function maybeTimerSyncNotes(): Promise<void> {
-  if (!notesGitRoot) return;
-  if (!notesDirty) return;
+/**
+ * Asks git which filter applies to a note in each encrypted folder and to each
+ * encrypted note; throws if .gitattributes does not route one of them through
+ * the encryption filter, as that note would be committed in plain text.
+ */
+async function checkNotesEncryptionAttributes(notesFolder: string, gitRoot: string): Promise<void> {
+  const folders = vscode.workspace.getConfiguration('foamCentral').get<string[]>('encryption.folders') ?? [];
+  const existing = await fsp.readFile(path.join(notesFolder, '.gitattributes'), 'utf8').catch(() => '');
+  const samples = [
+    ...folders
+      .map(folder => folder.trim().replace(/\\/g, '/').replace(/^\.?\/+|\/+$/g, ''))
+      .filter(Boolean)
+      .map(folder => path.join(notesFolder, folder, 'note.md')),
+    ...getEncryptedFilesFromAttributes(existing).map(f => path.join(notesFolder, f))
+  ].map(p => path.relative(gitRoot, p).replace(/\\/g, '/'));
+  if (samples.length === 0) {
+    return;
+  }
 
-  const cfg = vscode.workspace.getConfiguration('foamCentral');
-  const minutesThreshold = cfg.get<number>('notesGit.minutesThreshold') ?? 10;
-  const elapsedMinutes = (Date.now() - notesLastSyncTime) / 60000;
+  // -z: <path> NUL <attribute> NUL <value> NUL for each path
+  const fields = (await runGit(['check-attr', '-z', 'filter', '--', ...samples], gitRoot)).stdout.split('\0');
+  const unfiltered: string[] = [];
+  for (let i = 0; i + 2 < fields.length; i += 3) {
+    if (fields[i + 2] !== CRYPT_FILTER_NAME) {
+      unfiltered.push(fields[i]);
+    }
+  }
+  if (unfiltered.length > 0) {
+    throw new Error(
+      `.gitattributes does not apply the encryption filter to ${unfiltered.join(', ')}; ` +
+      'not syncing, so no note is committed in plain text'
+    );
+  }
+}
 
-  if (elapsedMinutes < minutesThreshold) {
-    return;
+async function isEncryptedNoteFile(filePath: string): Promise<boolean> {
+  try {
+    const handle = await fsp.open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(64);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      return isEncryptedNote(buffer.subarray(0, bytesRead));
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return false;
   }
+}
 
-  logChannel.appendLine(
-    `Foam Central: timer-based notes sync triggered after ${elapsedMinutes.toFixed(1)} minutes`
-  );
+/* ---------- Notes fetch, auto-pull and status bar ---------- */
 
-  await runNotesSync('timer');
+type NotesAutoPull = 'off' | 'ff-only' | 'rebase';
+
+const NOTES_FETCH_TIMEOUT_MS = 2 * 60 * 1000;
+
+function getNotesAutoPull(): NotesAutoPull {
+  const value = vscode.workspace.getConfiguration('foamCentral').get<string>('notesGit.autoPull');
+  return value === 'off' || value === 'rebase' ? value : 'ff-only';
 }
 
-async function getNotesAheadBehind(): Promise<{ ahead: number; behind: number; hasUpstream: boolean }> {
-  if (!notesGitRoot) {
-    return { ahead: 0, behind: 0, hasUpstream: false };
+/** Fetches the notes upstream (the working tree is not touched) and updates the status bar. */
+async function fetchNotes(): Promise<void> {
+  const gitRoot = notesGitRoot;
+  if (!gitRoot) return;
+
+  try {
+    // Never wait for a credentials prompt in the background
+    await runGit(['fetch', '--quiet'], gitRoot, {
+      env: { GIT_TERMINAL_PROMPT: '0' },
+      timeout: NOTES_FETCH_TIMEOUT_MS
+    });
+    notesLastFetchAt = new Date();
+  } catch (err: any) {
+    logChannel.appendLine('Foam Central: notes fetch failed: ' + (err.stderr || err.message || String(err)));
+  }
+  await updateNotesStatus();
+}
+
+/**
+ * Fetches and, if the notes repo is behind its upstream, pulls with the
+ * foamCentral.notesGit.autoPull policy. Concurrent calls share one run.
+ */
+function autoPullNotes(trigger: string): Promise<void> {
+  if (!notesAutoPullRun) {
+    notesAutoPullRun = runAutoPullNotes(trigger).finally(() => {
+      notesAutoPullRun = undefined;
+    });
   }
+  return notesAutoPullRun;
+}
+
+async function runAutoPullNotes(trigger: string): Promise<void> {
+  const gitRoot = notesGitRoot;
+  const policy = getNotesAutoPull();
+  if (!gitRoot || policy === 'off' || notesSyncInProgress) return;
 
+  await fetchNotes();
+  if (!notesAheadBehind?.hasUpstream || notesAheadBehind.behind === 0) return;
+
+  notesSyncInProgress = true;
   try {
-    const { stdout } = await runGit(
-      ['rev-list', '--left-right', '--count', 'HEAD...@{u}'],
-      notesGitRoot
+    if (policy === 'rebase') {
+      if (!(await pullNotes(gitRoot, 'rebase'))) return;
+    } else {
+      await withNotesLock('notes pull', () => runNotesGit(['pull', '--ff-only', '--autostash'], gitRoot));
+    }
+    notesLastSyncAt = new Date();
+    logChannel.appendLine(
+      `Foam Central: pulled ${notesAheadBehind.behind} notes commit(s) (${policy}, before ${trigger}).`
     );
-    const trimmed = stdout.trim();
-    if (!trimmed) {
-      return { ahead: 0, behind: 0, hasUpstream: false };
+    // Notes another machine flagged `encrypt: true` without listing them
+    const notesFolder = getNotesFolder();
+    if (notesFolder && notesCryptKey && vscode.workspace.getConfiguration('foamCentral').get<boolean>('encryption.enabled')) {
+      await ensureNotesEncryptionAttributes(notesFolder, gitRoot);
     }
-    const [left, right] = trimmed.split(/\s+/);
-    const ahead = parseInt(left || '0', 10) || 0;
-    const behind = parseInt(right || '0', 10) || 0;
-    return { ahead, behind, hasUpstream: true };
   } catch (err: any) {
-    // Probably no upstream configured
+    // Diverged history: the status bar shows it and the next sync deals with it
     logChannel.appendLine(
-      `Foam Central: getNotesAheadBehind failed (likely no upstream): ${err.message || err}`
+      `Foam Central: notes auto-pull (${policy}) failed before ${trigger}: ` +
+      (err.stderr || err.message || String(err))
     );
-    return { ahead: 0, behind: 0, hasUpstream: false };
+  } finally {
+    notesSyncInProgress = false;
+    await updateNotesStatus();
   }
 }
 
-async function checkNotesRemoteAheadOnStartup(): Promise<void> {
-  if (!notesGitRoot) return;
-  const { behind, hasUpstream } = await getNotesAheadBehind();
-  if (hasUpstream && behind > 0) {
-    vscode.window.showWarningMessage(
-      `Foam Central: your notes repo at "${notesGitRoot}" is behind its upstream by ${behind} commit(s). ` +
-      `Consider pulling before relying on auto-sync.`
-    );
+/**
+ * Pulls before today's daily note is created, so a note another machine has
+ * already pushed is used instead of a second copy that would conflict.
+ */
+async function pullBeforeNewDailyNote(notesFolder: string, date: Date): Promise<void> {
+  // Pulling takes the write lock; callers holding it have pulled before taking it
+  if (!notesGitRoot || holdsNotesLock()) return;
+  if (getDailyNoteSlug(date) !== getDailyNoteSlug(new Date())) return;
+  if (fs.existsSync(getDailyNotePath(notesFolder, getJournalLayout(notesFolder), date))) return;
+
+  await autoPullNotes('creating today’s daily note');
+}
+
+function startNotesFetchTimer(context: vscode.ExtensionContext): void {
+  if (notesFetchTimer) {
+    clearInterval(notesFetchTimer);
+    notesFetchTimer = undefined;
   }
+
+  const minutes = vscode.workspace.getConfiguration('foamCentral').get<number>('notesGit.fetchIntervalMinutes') ?? 5;
+  if (minutes <= 0) return;
+
+  notesFetchTimer = setInterval(() => {
+    if (!notesSyncInProgress) {
+      void fetchNotes();
+    }
+  }, minutes * 60 * 1000);
+
+  context.subscriptions.push({
+    dispose: () => {
+      if (notesFetchTimer) {
+        clearInterval(notesFetchTimer);
+        notesFetchTimer = undefined;
+      }
+    }
+  });
 }
 
-async function runNotesSync(reason: 'save-threshold' | 'timer' | 'manual'): Promise<void> {
-  const cfg = vscode.workspace.getConfiguration('foamCentral');
-  const autoEnabled = cfg.get<boolean>('notesGit.autoSyncEnabled') ?? false;
-  if (!autoEnabled) {
-    logChannel.appendLine('Foam Central: notes Git auto-sync disabled, skipping.');
-    return;
+async function updateNotesStatus(): Promise<void> {
+  if (notesGitRoot) {
+    notesAheadBehind = await getNotesAheadBehind();
   }
+  renderNotesStatusBar();
+}
 
+function renderNotesStatusBar(): void {
+  const item = notesStatusBarItem;
+  if (!item) return;
   if (!notesGitRoot) {
-    logChannel.appendLine('Foam Central: notes Git root not set, skipping sync.');
+    item.hide();
     return;
   }
 
-  if (notesSyncInProgress) {
-    logChannel.appendLine('Foam Central: notes sync already in progress, skipping.');
-    return;
+  const cfg = vscode.workspace.getConfiguration('foamCentral');
+  const saveThreshold = cfg.get<number>('notesGit.saveCountThreshold') ?? 10;
+  const minutesThreshold = cfg.get<number>('notesGit.minutesThreshold') ?? 10;
+  // The timer sync runs on the first minute tick after the threshold
+  const minutesLeft = Math.max(0, Math.ceil(minutesThreshold - (Date.now() - notesLastSyncTime) / 60000));
+
+  const status = notesAheadBehind;
+  const counts = status?.hasUpstream ? `${status.ahead}↑ ${status.behind}↓` : 'no upstream';
+  const parts = [counts];
+  if (notesDirty) {
+    parts.push(`${notesSaveCount}/${saveThreshold}`, `${minutesLeft}m`);
+  } else if (notesLastSyncAt) {
+    parts.push(formatTime(notesLastSyncAt));
   }
+  item.text = notesSyncInProgress ? '$(sync~spin) Syncing notes…' : `$(repo-sync) ${parts.join(' · ')}`;
 
-  notesSyncInProgress = true;
+  const lines = [`Foam Central notes: ${notesGitRoot}`];
+  if (status?.hasUpstream) {
+    lines.push(`${status.ahead} commit(s) to push, ${status.behind} to pull`);
+  } else {
+    lines.push('No upstream branch configured');
+  }
+  if (notesDirty) {
+    lines.push(
+      `Pending saves: ${notesSaveCount} of ${saveThreshold}`,
+      `Timer sync in ${minutesLeft} min (every ${minutesThreshold} min while there are changes)`
+    );
+  } else {
+    lines.push('No unsynced changes');
+  }
+  lines.push(`Last sync: ${notesLastSyncAt ? notesLastSyncAt.toLocaleString() : 'not in this session'}`);
+  if (notesLastFetchAt) {
+    lines.push(`Last fetch: ${notesLastFetchAt.toLocaleString()}`);
+  }
+  lines.push('', 'Click to show the sync history.');
+  item.tooltip = lines.join('\n');
+  item.show();
+}
+
+/* ---------- Notes sync history ---------- */
+
+async function recordSyncAttempt(attempt: SyncAttempt): Promise<void> {
+  if (!syncHistory) return;
   try {
-    // Any changes at all?
-    const status = await runGit(['status', '--porcelain'], notesGitRoot);
-    const hasChanges = status.stdout.trim().length > 0;
-    if (!hasChanges) {
-      logChannel.appendLine('Foam Central: no changes to commit in notes repo.');
-      notesDirty = false;
-      notesSaveCount = 0;
-      notesLastSyncTime = Date.now();
-      return;
+    await syncHistory.add(attempt);
+    syncHistoryTreeProvider?.refresh();
+  } catch (err) {
+    logChannel.appendLine('Foam Central: failed to record sync attempt: ' + String(err));
+  }
+}
+
+function initSyncHistoryView(context: vscode.ExtensionContext): void {
+  syncHistory = new SyncHistory(context.globalState);
+  syncHistoryTreeProvider = new SyncHistoryTreeProvider(syncHistory, () => notesGitRoot);
+  context.subscriptions.push(
+    syncHistoryTreeProvider,
+    vscode.window.registerTreeDataProvider('foamCentral.syncHistory', syncHistoryTreeProvider),
+    vscode.commands.registerCommand('foamCentral.showSyncHistory', async () => {
+      await vscode.commands.executeCommand('foamCentral.syncHistory.focus');
+    }),
+    vscode.commands.registerCommand('foamCentral.clearSyncHistory', async () => {
+      await syncHistory?.clear();
+      syncHistoryTreeProvider?.refresh();
+    })
+  );
+}
+
+/* ---------- Notes sync conflicts ---------- */
+
+function getNotesPullStrategy(): PullStrategy {
+  const value = vscode.workspace.getConfiguration('foamCentral').get<string>('notesGit.pullStrategy');
+  return value === 'rebase' || value === 'merge' ? value : 'ff-only';
+}
+
+function getNotesGitRunner(gitRoot: string): GitRunner {
+  return async args => (await runNotesGit(args, gitRoot)).stdout;
+}
+
+/** Sets up the line-union merge of append-only notes in the notes folder's .gitattributes. */
+async function ensureNotesGitAttributes(notesFolder: string): Promise<void> {
+  const filePath = path.join(notesFolder, '.gitattributes');
+  const lines = getUnionMergeAttributes(getDailyNoteGlob(getJournalLayout(notesFolder)), getProjectNotesFolderName());
+
+  await withNotesLock('gitattributes', async () => {
+    let existing = '';
+    try {
+      existing = await fsp.readFile(filePath, 'utf8');
+    } catch {
+      // created below
+    }
+    const updated = updateGitAttributes(existing, lines);
+    if (updated !== existing) {
+      await fsp.writeFile(filePath, updated, { encoding: 'utf8' });
+      notesDirty = true;
+      logChannel.appendLine(`Foam Central: updated ${filePath} (line-union merge for append-only notes).`);
     }
+  });
+}
 
-    // Check ahead/behind vs upstream
-    const { ahead, behind, hasUpstream } = await getNotesAheadBehind();
+/** Re-reads the conflicted notes into the Sync Conflicts view; returns how many there are. */
+async function refreshNotesConflicts(): Promise<number> {
+  const gitRoot = notesGitRoot;
+  if (!gitRoot) {
+    conflictTreeProvider?.setConflicts([]);
+    return 0;
+  }
 
-    if (hasUpstream && behind > 0) {
-      const choice = await vscode.window.showWarningMessage(
-        `Foam Central: notes repo at "${notesGitRoot}" is behind its upstream by ` +
-        `${behind} commit(s). Auto-push is paused. Do you want to pull and merge now?`,
-        'Pull Now',
-        'Skip'
+  const git = getNotesGitRunner(gitRoot);
+  const files = await listConflictedFiles(git);
+  const pull = files.length > 0 ? await getPendingPull(git, gitRoot) : undefined;
+  conflictTreeProvider?.setConflicts(
+    files.map(relativePath => ({
+      repoRoot: gitRoot,
+      relativePath,
+      filePath: path.join(gitRoot, ...relativePath.split('/')),
+      pull
+    }))
+  );
+  return files.length;
+}
+
+/**
+ * Pulls with rebase or merge. Returns false if that failed or stopped on
+ * conflicts, which are then listed in the Sync Conflicts view.
+ */
+async function pullNotes(gitRoot: string, strategy: 'rebase' | 'merge'): Promise<boolean> {
+  const args = ['pull', strategy === 'rebase' ? '--rebase' : '--no-rebase', '--autostash', '--no-edit'];
+  try {
+    await withNotesLock('notes pull', () => runNotesGit(args, gitRoot));
+    logChannel.appendLine(`Foam Central: pulled notes repo (${strategy}).`);
+    await regenerateMergedIndexes(gitRoot);
+    return true;
+  } catch (err: any) {
+    const count = await refreshNotesConflicts();
+    if (count === 0) {
+      vscode.window.showErrorMessage(
+        'Foam Central: git pull failed for notes repo.\n' + (err.stderr || err.message || String(err))
       );
+      return false;
+    }
 
-      if (choice === 'Pull Now') {
-        try {
-          // Safe-ish: fast-forward only, no auto-merge commit
-          await runGit(['pull', '--ff-only'], notesGitRoot);
-          vscode.window.showInformationMessage('Foam Central: git pull completed for notes repo.');
-        } catch (err: any) {
-          vscode.window.showErrorMessage(
-            'Foam Central: git pull failed for notes repo. Please resolve conflicts manually.\n' +
-            (err.stderr || err.message || String(err))
-          );
-          // Don't auto-push if pull failed
-          return;
+    logChannel.appendLine(`Foam Central: notes pull (${strategy}) stopped on ${count} conflict(s).`);
+    // Not awaited: the sync must not wait for the notification
+    void vscode.window
+      .showWarningMessage(
+        `Foam Central: ${count} note(s) conflict after pulling the notes repo (${strategy}). ` +
+        'Auto-sync is paused until they are resolved in the Sync Conflicts view.',
+        'Show Conflicts'
+      )
+      .then(choice => {
+        if (choice === 'Show Conflicts') {
+          void vscode.commands.executeCommand('foamCentral.syncConflicts.focus');
         }
-      } else {
-        // User chose Skip → don't push
-        logChannel.appendLine('Foam Central: user skipped pull, not pushing notes repo.');
-        return;
+      });
+    return false;
+  }
+}
+
+/**
+ * index.md is union-merged, so a merge with another machine's regenerated
+ * block can list links or headings twice: the indexes the pull changed are
+ * regenerated (ORIG_HEAD is where the rebase or merge started).
+ */
+async function regenerateMergedIndexes(gitRoot: string): Promise<void> {
+  const notesFolder = getNotesFolder();
+  const auto = vscode.workspace.getConfiguration('foamCentral').get<boolean>('autoUpdateFolderIndex', true);
+  if (!notesFolder || !auto) return;
+
+  let changed: string[];
+  try {
+    changed = (await runGit(['diff', '--name-only', '-z', 'ORIG_HEAD', 'HEAD'], gitRoot)).stdout.split('\0');
+  } catch {
+    return; // no ORIG_HEAD: nothing was merged
+  }
+  for (const file of changed) {
+    if (path.posix.basename(file).toLowerCase() !== INDEX_FILE_NAME) continue;
+    const dir = path.dirname(path.join(gitRoot, file));
+    if (path.relative(notesFolder, dir).startsWith('..')) continue;
+    try {
+      if ((await updateFolderIndex(dir, notesFolder))?.changed) {
+        notesDirty = true; // committed by the next sync
       }
+    } catch (err) {
+      logChannel.appendLine(`Foam Central: failed to regenerate ${file} after the pull: ${String(err)}`);
     }
+  }
+}
 
-    // Stage everything
-    await runGit(['add', '.'], notesGitRoot);
-
-    // Commit
-    const template = cfg.get<string>('notesGit.commitMessage') || 'Foam Central auto-commit ({reason})';
-    const message = template.replace('{reason}', reason);
+/**
+ * Finishes a pull that stopped on conflicts (rebase --continue, or the merge
+ * commit) once none are left. Returns false while conflicts remain.
+ */
+async function continueNotesPull(): Promise<boolean> {
+  const gitRoot = notesGitRoot;
+  if (!gitRoot) return true;
+  const git = getNotesGitRunner(gitRoot);
+
+  let continued = false;
+  for (;;) {
+    if ((await refreshNotesConflicts()) > 0) {
+      return false;
+    }
+    const pending = await getPendingPull(git, gitRoot);
+    if (!pending) {
+      if (continued) {
+        await regenerateMergedIndexes(gitRoot);
+      }
+      return true;
+    }
 
+    continued = true;
     try {
-      await runGit(['commit', '-m', message], notesGitRoot);
-      logChannel.appendLine(`Foam Central: committed notes changes with message "${message}".`);
+      await withNotesLock('notes pull', () => continuePendingPull(git, pending));
+      logChannel.appendLine(`Foam Central: continued the stopped notes ${pending}.`);
     } catch (err: any) {
-      // Ignore "nothing to commit" race
-      const msg = err.stderr || err.message || String(err);
-      if (/nothing to commit/i.test(msg)) {
-        logChannel.appendLine('Foam Central: nothing to commit (race), skipping push.');
-        notesDirty = false;
-        notesSaveCount = 0;
-        notesLastSyncTime = Date.now();
-        return;
+      const msg = err.stderr || err.stdout || err.message || String(err);
+      if ((await refreshNotesConflicts()) > 0) {
+        return false; // the rebase stopped again on a later commit
+      }
+      if (pending === 'rebase' && /no changes|nothing to commit/i.test(msg)) {
+        // Resolving made the commit empty: drop it
+        await withNotesLock('notes pull', () => git(['rebase', '--skip']));
+        continue;
       }
       throw err;
     }
+  }
+}
 
-    // Push (if we have a remote)
+/** Resolves a conflicted note with `choice`, or as it is now (edited by hand) if undefined. */
+async function resolveNotesConflict(conflict: SyncConflict, choice: ConflictChoice | undefined): Promise<void> {
+  const doc = vscode.workspace.textDocuments.find(
+    d => d.uri.scheme === 'file' && normalizePath(d.uri.fsPath) === normalizePath(conflict.filePath)
+  );
+  if (doc?.isDirty) {
+    vscode.window.showWarningMessage(
+      `Foam Central: "${conflict.relativePath}" has unsaved changes. Save or revert it first.`
+    );
+    return;
+  }
+
+  const git = getNotesGitRunner(conflict.repoRoot);
+  await withNotesLock('resolve conflict', async () => {
+    let content: string | undefined;
     try {
-      await runGit(['push'], notesGitRoot);
-      logChannel.appendLine(
-        `Foam Central: pushed notes repo (ahead was ${ahead}, now synchronized).`
-      );
-    } catch (err: any) {
-      vscode.window.showWarningMessage(
-        'Foam Central: git push failed for notes repo. Check remote configuration.\n' +
-        (err.stderr || err.message || String(err))
-      );
+      content = await fsp.readFile(conflict.filePath, 'utf8');
+    } catch {
+      // deleted on one side
     }
 
-    notesDirty = false;
-    notesSaveCount = 0;
-    notesLastSyncTime = Date.now();
-  } catch (err: any) {
-    logChannel.appendLine('Foam Central: error during notes sync: ' + (err.message || String(err)));
-  } finally {
-    notesSyncInProgress = false;
+    if (!choice) {
+      if (content !== undefined && /^<{7}( |$)/m.test(content)) {
+        throw new Error(`"${conflict.relativePath}" still has conflict markers`);
+      }
+      await git(['add', '-A', '--', conflict.relativePath]);
+      return;
+    }
+
+    const resolved = content === undefined ? undefined : resolveConflictMarkers(content, choice, conflict.pull);
+    if (resolved !== undefined) {
+      await fsp.writeFile(conflict.filePath, resolved, { encoding: 'utf8' });
+    } else if (choice === 'both') {
+      throw new Error(`"${conflict.relativePath}" has no conflict markers to combine; keep ours or theirs instead`);
+    } else {
+      await git(['checkout', getCheckoutFlag(choice, conflict.pull), '--', conflict.relativePath]);
+    }
+    await git(['add', '--', conflict.relativePath]);
+  });
+  logChannel.appendLine(`Foam Central: resolved sync conflict in ${conflict.relativePath} (${choice ?? 'edited'}).`);
+
+  if ((await refreshNotesConflicts()) === 0) {
+    vscode.window.showInformationMessage('Foam Central: all sync conflicts are resolved, resuming notes sync.');
+    notesDirty = true;
+    await runNotesSync('manual');
   }
 }
 
+function initConflictView(context: vscode.ExtensionContext): void {
+  conflictTreeProvider = new ConflictTreeProvider();
+  context.subscriptions.push(
+    conflictTreeProvider,
+    vscode.window.registerTreeDataProvider('foamCentral.syncConflicts', conflictTreeProvider)
+  );
+
+  const registerResolve = (command: string, choice: ConflictChoice | undefined) =>
+    vscode.commands.registerCommand(command, async (node: unknown) => {
+      const conflict = getConflictFromNode(node);
+      if (!conflict) return;
+
+      try {
+        await resolveNotesConflict(conflict, choice);
+      } catch (err: any) {
+        vscode.window.showErrorMessage(
+          'Foam Central: Failed to resolve conflict: ' + (err.stderr || err.message || String(err))
+        );
+        logChannel.appendLine('resolveNotesConflict failed: ' + String(err.stderr || err));
+      }
+    });
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('foamCentral.refreshSyncConflicts', async () => {
+      try {
+        await refreshNotesConflicts();
+      } catch (err) {
+        logChannel.appendLine('refreshNotesConflicts failed: ' + String(err));
+      }
+    }),
+    registerResolve('foamCentral.conflictKeepOurs', 'ours'),
+    registerResolve('foamCentral.conflictKeepTheirs', 'theirs'),
+    registerResolve('foamCentral.conflictKeepBoth', 'both'),
+    registerResolve('foamCentral.conflictMarkResolved', undefined)
+  );
+}
+
 async function initNotesRepoCommand(context: vscode.ExtensionContext): Promise<void> {
   const notesFolder = getNotesFolder();
   if (!notesFolder) {
@@ -1012,14 +3380,14 @@ async function initNotesRepoCommand(context: vscode.ExtensionContext): Promise<v
   let gitRoot = findGitRoot(notesFolder);
 
   if (gitRoot) {
-    // Already in a repo – just offer to configure GitHub remote
+    // Already in a repo – just offer to configure a remote
     const choice = await vscode.window.showInformationMessage(
       `Foam Central: notes folder is already inside a Git repository at "${gitRoot}".`,
-      'Configure GitHub Remote',
+      'Configure Remote',
       'Cancel'
     );
-    if (choice === 'Configure GitHub Remote') {
-      await ensureNotesRemoteOnGitHub(gitRoot);
+    if (choice === 'Configure Remote') {
+      await ensureNotesRemote(gitRoot, context);
       // Re-init auto-sync now that we have a repo
       await initNotesGitSync(notesFolder, context);
     }
@@ -1048,12 +3416,26 @@ async function initNotesRepoCommand(context: vscode.ExtensionContext): Promise<v
     return;
   }
 
+  try {
+    await ensureNotesGitIgnore(notesFolder);
+    await ensureNotesGitAttributes(notesFolder);
+  } catch (err) {
+    logChannel.appendLine('Foam Central: failed to write .gitignore / .gitattributes: ' + String(err));
+  }
+
+  // The filter must be in place before private notes are first committed
+  try {
+    await setupNotesEncryption(context, notesFolder, notesFolder, true);
+  } catch (err: any) {
+    vscode.window.showErrorMessage('Foam Central: failed to set up notes encryption: ' + (err.message || String(err)));
+    return;
+  }
+
   // Optional initial commit if there are files
   try {
-    const status = await runGit(['status', '--porcelain'], notesFolder);
-    if (status.stdout.trim().length > 0) {
-      await runGit(['add', '.'], notesFolder);
-      await runGit(['commit', '-m', 'Initial commit (Foam notes)'], notesFolder);
+    const selection = await selectNotesChanges(notesFolder);
+    if (selection.files.length > 0) {
+      await commitNotesFiles(notesFolder, selection, 'Initial commit (Foam notes)');
       vscode.window.showInformationMessage('Foam Central: created initial notes commit.');
     }
   } catch (err: any) {
@@ -1062,14 +3444,14 @@ async function initNotesRepoCommand(context: vscode.ExtensionContext): Promise<v
     );
   }
 
-  // Offer to connect to GitHub
+  // Offer to connect to a remote
   const remoteChoice = await vscode.window.showInformationMessage(
     'Foam Central: Do you want to connect this notes repo to a remote?',
-    'GitHub Private Repo',
+    'Connect Remote',
     'Skip'
   );
-  if (remoteChoice === 'GitHub Private Repo') {
-    await ensureNotesRemoteOnGitHub(notesFolder);
+  if (remoteChoice === 'Connect Remote') {
+    await ensureNotesRemote(notesFolder, context);
   }
 
   // Recompute git root and start auto-sync
@@ -1078,61 +3460,158 @@ async function initNotesRepoCommand(context: vscode.ExtensionContext): Promise<v
   await initNotesGitSync(notesFolder, context);
 }
 
-async function ensureNotesRemoteOnGitHub(notesRepoPath: string): Promise<void> {
-  // Ask VS Code for a GitHub session
-  let session: vscode.AuthenticationSession;
-  try {
-    session = await vscode.authentication.getSession(
-      'github',
-      ['repo'],
-      { createIfNone: true }
-    );
-  } catch (err: any) {
-    vscode.window.showErrorMessage(
-      'Foam Central: unable to get GitHub session. Make sure you are signed in to GitHub in VS Code.'
-    );
+/* ---------- Notes remote (GitHub, GitLab, Gitea or an existing URL) ---------- */
+
+async function ensureNotesRemote(notesRepoPath: string, context: vscode.ExtensionContext): Promise<void> {
+  const provider = await pickNotesRemoteProvider(notesRepoPath, context);
+  if (!provider) {
     return;
   }
 
-  const token = session.accessToken;
+  try {
+    const remoteUrl = provider instanceof UrlRemoteProvider
+      ? await prepareExistingRemote(provider)
+      : await prepareHostedRemote(provider);
+    if (remoteUrl) {
+      await connectNotesRemote(notesRepoPath, remoteUrl, provider.label);
+    }
+  } catch (err) {
+    if (err instanceof RemoteProviderError && err.status === 401 && provider.kind !== 'github') {
+      // A rejected token is asked for again next time
+      await context.secrets.delete(getRemoteTokenKey(provider));
+    }
+    vscode.window.showErrorMessage(`Foam Central: ${provider.label}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
 
-  // Get user info (login name)
-  const userResp = await githubRequest<{ login: string }>({
-    method: 'GET',
-    path: '/user',
-    token
-  });
-  if (userResp.status !== 200 || !userResp.data?.login) {
-    vscode.window.showErrorMessage(
-      'Foam Central: failed to get GitHub user info. Status ' + userResp.status
-    );
-    return;
+async function pickNotesRemoteProvider(
+  notesRepoPath: string,
+  context: vscode.ExtensionContext
+): Promise<RemoteProvider | undefined> {
+  const cfg = vscode.workspace.getConfiguration('foamCentral');
+  const pick = await vscode.window.showQuickPick(
+    [
+      { label: 'GitHub', description: cfg.get<string>('notesGit.githubApiUrl') || DEFAULT_GITHUB_API_URL, provider: 'github' as const },
+      { label: 'GitLab', description: cfg.get<string>('notesGit.gitlabUrl') || DEFAULT_GITLAB_URL, provider: 'gitlab' as const },
+      { label: 'Gitea', description: cfg.get<string>('notesGit.giteaUrl') || 'self-hosted', provider: 'gitea' as const },
+      { label: 'Existing URL or bare repository path', description: 'e.g. a NAS share', provider: 'url' as const }
+    ],
+    { title: 'Foam Central: where should the notes be pushed?' }
+  );
+  if (!pick) {
+    return undefined;
+  }
+
+  if (pick.provider === 'url') {
+    const target = (await vscode.window.showInputBox({
+      title: 'Foam Central: notes remote',
+      prompt: 'Git URL (https://…, ssh://…, user@host:path) or path to a bare repository',
+      ignoreFocusOut: true
+    }))?.trim();
+    return target ? new UrlRemoteProvider(target, getNotesGitRunner(notesRepoPath)) : undefined;
+  }
+
+  if (pick.provider === 'github') {
+    const apiUrl = (cfg.get<string>('notesGit.githubApiUrl') || DEFAULT_GITHUB_API_URL).trim();
+    let enterprise: boolean;
+    try {
+      enterprise = new URL(apiUrl).host !== new URL(DEFAULT_GITHUB_API_URL).host;
+    } catch {
+      vscode.window.showErrorMessage(`Foam Central: "${apiUrl}" (foamCentral.notesGit.githubApiUrl) is not a valid URL.`);
+      return undefined;
+    }
+
+    // Ask VS Code for a GitHub session (GitHub Enterprise: the server in github-enterprise.uri)
+    try {
+      const session = await vscode.authentication.getSession(
+        enterprise ? 'github-enterprise' : 'github',
+        ['repo'],
+        { createIfNone: true }
+      );
+      return new GitHubProvider({ baseUrl: apiUrl, token: session.accessToken });
+    } catch {
+      vscode.window.showErrorMessage(
+        enterprise
+          ? 'Foam Central: unable to get GitHub Enterprise session. Set "github-enterprise.uri" and sign in to GitHub Enterprise in VS Code.'
+          : 'Foam Central: unable to get GitHub session. Make sure you are signed in to GitHub in VS Code.'
+      );
+      return undefined;
+    }
+  }
+
+  let baseUrl = (pick.provider === 'gitlab'
+    ? cfg.get<string>('notesGit.gitlabUrl') || DEFAULT_GITLAB_URL
+    : cfg.get<string>('notesGit.giteaUrl') || '').trim();
+  if (!baseUrl) {
+    baseUrl = (await vscode.window.showInputBox({
+      title: 'Foam Central: Gitea server',
+      prompt: 'URL of the Gitea server, e.g. https://git.example.com (saved as foamCentral.notesGit.giteaUrl)',
+      ignoreFocusOut: true
+    }))?.trim() ?? '';
+    if (!baseUrl) {
+      return undefined;
+    }
+    await cfg.update('notesGit.giteaUrl', baseUrl, vscode.ConfigurationTarget.Global);
   }
-  const login = userResp.data.login;
+  try {
+    new URL(baseUrl);
+  } catch {
+    vscode.window.showErrorMessage(`Foam Central: "${baseUrl}" is not a valid server URL.`);
+    return undefined;
+  }
+
+  const create = (token: string) => pick.provider === 'gitlab'
+    ? new GitLabProvider({ baseUrl, token })
+    : new GiteaProvider({ baseUrl, token });
+  const key = getRemoteTokenKey(create(''));
+  let token = await context.secrets.get(key);
+  if (!token) {
+    token = (await vscode.window.showInputBox({
+      title: `Foam Central: ${pick.label} access token`,
+      prompt: pick.provider === 'gitlab'
+        ? 'Personal access token with the "api" scope (stored in VS Code\'s secret storage)'
+        : 'Access token with repository read/write permission (stored in VS Code\'s secret storage)',
+      password: true,
+      ignoreFocusOut: true
+    }))?.trim();
+    if (!token) {
+      return undefined;
+    }
+    await context.secrets.store(key, token);
+  }
+  return create(token);
+}
+
+/** SecretStorage key of a provider's token, per server. */
+function getRemoteTokenKey(provider: RemoteProvider): string {
+  return `foamCentral.remoteToken.${provider.label}`;
+}
+
+/** Finds or creates the repository on the server; returns its clone URL. */
+async function prepareHostedRemote(provider: RemoteProvider): Promise<string | undefined> {
+  const login = await provider.getUser();
 
   // Ask for base repo name
   const defaultName = 'foam-notes';
   const baseName = await vscode.window.showInputBox({
-    title: 'Foam Central: Notes GitHub repository name',
+    title: `Foam Central: Notes repository name on ${provider.label}`,
     value: defaultName,
-    prompt: 'Base name for the GitHub repo where your notes will be stored.'
+    prompt: 'Base name for the repository where your notes will be stored.'
   }) || defaultName;
 
-  // Check if base repo exists, and find first free suffix
+  // Check if base repo exists, and find first free suffix (one listing where the API has it)
+  const taken = provider.listRepoNames
+    ? new Set((await provider.listRepoNames(login)).map(name => name.toLowerCase()))
+    : undefined;
+  const exists = (name: string) => taken ? Promise.resolve(taken.has(name.toLowerCase())) : provider.repoExists(login, name);
   let existingName: string | undefined;
   let freeName: string | undefined;
 
   for (let i = 0; i < 20; i++) {
     const candidate = i === 0 ? baseName : `${baseName}-${i}`;
-    const head = await githubRequest({
-      method: 'GET',
-      path: `/repos/${encodeURIComponent(login)}/${encodeURIComponent(candidate)}`,
-      token
-    });
-
-    if (head.status === 200 && !existingName) {
-      existingName = candidate;
-    } else if (head.status === 404 && !freeName) {
+    if (await exists(candidate)) {
+      existingName = existingName ?? candidate;
+    } else {
       freeName = candidate;
       break;
     }
@@ -1140,9 +3619,9 @@ async function ensureNotesRemoteOnGitHub(notesRepoPath: string): Promise<void> {
 
   if (!freeName && !existingName) {
     vscode.window.showErrorMessage(
-      'Foam Central: could not determine available repository name on GitHub.'
+      `Foam Central: could not determine available repository name on ${provider.label}.`
     );
-    return;
+    return undefined;
   }
 
   // Decide: use existing or create new
@@ -1156,10 +3635,10 @@ async function ensureNotesRemoteOnGitHub(notesRepoPath: string): Promise<void> {
         { label: `Use existing repo "${existingName}"`, value: 'use' },
         { label: `Create new repo "${createName}"`, value: 'create' }
       ],
-      { title: 'Foam Central: choose GitHub repository' }
+      { title: `Foam Central: choose ${provider.label} repository` }
     );
     if (!pick) {
-      return;
+      return undefined;
     }
     if (pick.value === 'use') {
       useExisting = true;
@@ -1172,41 +3651,49 @@ async function ensureNotesRemoteOnGitHub(notesRepoPath: string): Promise<void> {
     finalName = freeName || baseName;
   }
 
-  // If we are creating a new repo on GitHub:
   if (!useExisting) {
-    const createResp = await githubRequest<any>({
-      method: 'POST',
-      path: '/user/repos',
-      token,
-      body: {
-        name: finalName,
-        private: true, // renamed field "private" is reserved word in TS strict, so use bracket
-        description: 'Foam Central notes repository'
-      } as any
-    });
-
-    if (createResp.status !== 201) {
-      vscode.window.showErrorMessage(
-        'Foam Central: failed to create GitHub repo. Status ' +
-        createResp.status +
-        '. ' +
-        (createResp.data && (createResp.data.message || ''))
-      );
-      return;
-    }
-
+    await provider.createPrivateRepo(finalName, 'Foam Central notes repository');
     vscode.window.showInformationMessage(
-      `Foam Central: created private GitHub repo "${login}/${finalName}".`
+      `Foam Central: created private repo "${login}/${finalName}" on ${provider.label}.`
     );
   } else {
     vscode.window.showInformationMessage(
-      `Foam Central: will use existing GitHub repo "${login}/${finalName}".`
+      `Foam Central: will use existing repo "${login}/${finalName}" on ${provider.label}.`
+    );
+  }
+
+  return provider.getCloneUrl(login, finalName);
+}
+
+/** Checks an existing remote; a missing local bare repository is created on request. */
+async function prepareExistingRemote(provider: UrlRemoteProvider): Promise<string | undefined> {
+  if (await provider.repoExists()) {
+    return provider.getCloneUrl();
+  }
+
+  if (!provider.isLocalPath) {
+    vscode.window.showErrorMessage(
+      `Foam Central: could not reach a Git repository at "${provider.getCloneUrl()}". ` +
+      'Check the URL and your credentials (git ls-remote must work without a prompt).'
     );
+    return undefined;
   }
 
-  // Configure Git remote "origin" with HTTPS URL
-  const remoteUrl = `https://github.com/${login}/${finalName}.git`;
+  const choice = await vscode.window.showInformationMessage(
+    `Foam Central: there is no repository at "${provider.getCloneUrl()}". Create a bare repository there?`,
+    'Create Bare Repo',
+    'Cancel'
+  );
+  if (choice !== 'Create Bare Repo') {
+    return undefined;
+  }
+  await provider.createPrivateRepo();
+  vscode.window.showInformationMessage(`Foam Central: created bare repository at "${provider.getCloneUrl()}".`);
+  return provider.getCloneUrl();
+}
 
+/** Points "origin" at `remoteUrl` and pushes main. */
+async function connectNotesRemote(notesRepoPath: string, remoteUrl: string, label: string): Promise<void> {
   try {
     // If remote origin exists already, set-url; otherwise add
     let haveOrigin = false;
@@ -1234,18 +3721,18 @@ async function ensureNotesRemoteOnGitHub(notesRepoPath: string): Promise<void> {
     try {
       await runGit(['push', '-u', 'origin', 'main'], notesRepoPath);
       vscode.window.showInformationMessage(
-        `Foam Central: pushed notes repo to GitHub (${login}/${finalName}).`
+        `Foam Central: pushed notes repo to ${label} (${remoteUrl}).`
       );
     } catch (err: any) {
       vscode.window.showWarningMessage(
-        'Foam Central: repository was linked to GitHub, but initial push failed. ' +
+        `Foam Central: repository was linked to ${label}, but initial push failed. ` +
         'You may need to resolve this manually via Git.\n' +
         (err.stderr || err.message || String(err))
       );
     }
   } catch (err: any) {
     vscode.window.showErrorMessage(
-      'Foam Central: failed to configure GitHub remote: ' +
+      'Foam Central: failed to configure notes remote: ' +
       (err.stderr || err.message || String(err))
     );
   }
@@ -1267,13 +3754,10 @@ export async function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(disposable);
 
-  const notesFolder = getNotesFolder();
-  if (notesFolder) {
-    await ensureDailyNoteFile(notesFolder, new Date()); // whatever you already have
-    await initNotesGitSync(notesFolder, context);
-  }
+  initSessionTracking(context);
 
-  await initProjectTelemetry();
+  initConflictView(context);
+  initSyncHistoryView(context);
 
   context.subscriptions.push(
     vscode.commands.registerCommand('foamCentral.syncNotesNow', async () => {
@@ -1291,6 +3775,93 @@ export async function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('foamCentral.setEncryptionPassphrase', async () => {
+      try {
+        await setEncryptionPassphraseCommand(context);
+      } catch (err) {
+        console.error(err);
+        vscode.window.showErrorMessage('Foam Central: Failed to set the encryption passphrase: ' + String(err));
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders(async e => {
+      try {
+        await onWorkspaceFoldersChanged(e);
+      } catch (err) {
+        console.error('Foam Central: onWorkspaceFoldersChanged failed', err);
+        logChannel.appendLine('onWorkspaceFoldersChanged failed: ' + String(err));
+      }
+    }),
+    {
+      dispose: () => {
+        for (const watcher of projectGitWatchers.values()) {
+          watcher.dispose();
+        }
+        projectGitWatchers.clear();
+      }
+    }
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('foamCentral.setProjectAlias', async () => {
+      try {
+        await setProjectAliasCommand();
+      } catch (err) {
+        vscode.window.showErrorMessage('Foam Central: Failed to set project alias: ' + String(err));
+        logChannel.appendLine('setProjectAlias failed: ' + String(err));
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('foamCentral.generateTimeReports', async () => {
+      try {
+        await generateTimeReportsCommand();
+      } catch (err) {
+        vscode.window.showErrorMessage('Foam Central: Failed to generate time reports: ' + String(err));
+        logChannel.appendLine('generateTimeReports failed: ' + String(err));
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('foamCentral.migrateJournalLayout', async () => {
+      try {
+        await migrateJournalLayoutCommand();
+      } catch (err) {
+        vscode.window.showErrorMessage('Foam Central: Failed to migrate journal layout: ' + String(err));
+        logChannel.appendLine('migrateJournalLayout failed: ' + String(err));
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('foamCentral.backfillVcsLog', async () => {
+      try {
+        await backfillVcsLogCommand();
+      } catch (err) {
+        vscode.window.showErrorMessage('Foam Central: Failed to backfill the VCS log: ' + String(err));
+        logChannel.appendLine('backfillVcsLog failed: ' + String(err));
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('foamCentral.quickLog', async () => {
+      try {
+        await quickLogCommand();
+      } catch (err) {
+        vscode.window.showErrorMessage('Foam Central: Failed to log entry: ' + String(err));
+        logChannel.appendLine('quickLog failed: ' + String(err));
+      }
+    })
+  );
+
+  initTaskView(context);
+
   // Watch for new markdown files and update folder index if needed
   const mdWatcher = vscode.workspace.createFileSystemWatcher('**/*.md');
 
@@ -1302,8 +3873,40 @@ export async function activate(context: vscode.ExtensionContext) {
     }
   });
 
+  // Deleted notes (also from outside VS Code) drop out of their folder's index
+  mdWatcher.onDidDelete(async (uri) => {
+    try {
+      await maybeUpdateFolderIndexForFile(uri, true);
+    } catch (err) {
+      logChannel.appendLine(`maybeUpdateFolderIndexForFile error: ${String(err)}`);
+    }
+  });
+
   context.subscriptions.push(mdWatcher);
 
+  // Folders are not matched by the watcher's pattern; renames need both folders
+  context.subscriptions.push(
+    vscode.workspace.onDidDeleteFiles(async e => {
+      for (const uri of e.files) {
+        if (uri.fsPath.toLowerCase().endsWith('.md')) continue;
+        try {
+          await maybeUpdateFolderIndexForFile(uri, true);
+        } catch (err) {
+          logChannel.appendLine(`maybeUpdateFolderIndexForFile error: ${String(err)}`);
+        }
+      }
+    }),
+    vscode.workspace.onDidRenameFiles(async e => {
+      for (const { oldUri, newUri } of e.files) {
+        try {
+          await updateFolderIndexesForRename(oldUri, newUri);
+        } catch (err) {
+          logChannel.appendLine(`updateFolderIndexesForRename error: ${String(err)}`);
+        }
+      }
+    })
+  );
+
   const buildIndexesCmd = vscode.commands.registerCommand(
     'foamCentral.buildFolderIndexes',
     async () => {
@@ -1317,7 +3920,40 @@ export async function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(buildIndexesCmd);
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('foamCentral.rebuildFolderIndexes', async () => {
+      try {
+        await buildFolderIndexes(true);
+      } catch (err) {
+        vscode.window.showErrorMessage('Foam Central: Failed to rebuild folder indexes: ' + String(err));
+      }
+    })
+  );
+
+  // Not awaited: pulling the notes can take up to the fetch timeout, and
+  // activation (commands, watchers) must not wait for it
   (async () => {
+    const notesFolder = getNotesFolder();
+    if (notesFolder) {
+      try {
+        await initWriteCoordinator(notesFolder);
+      } catch (err) {
+        // Writes are still queued within this window
+        console.error('Foam Central: failed to set up the notes write lock', err);
+        logChannel.appendLine('initWriteCoordinator failed: ' + String(err));
+      }
+      try {
+        // Git first: today's note is only created after pulling what other machines pushed
+        await initNotesGitSync(notesFolder, context);
+        await ensureDailyNoteFile(notesFolder, new Date()); // whatever you already have
+        // CLOSE entries for sessions that ended since the last activation
+        await logFinishedSessions();
+      } catch (err) {
+        console.error('Foam Central: notes startup failed', err);
+        logChannel.appendLine('notes startup failed: ' + String(err));
+      }
+    }
+
     try {
       logChannel.appendLine('initProjectTelemetry() starting');
       await initProjectTelemetry();
@@ -1347,8 +3983,18 @@ export async function deactivate(): Promise<void> {
     clearTimeout(dailyNoteTimer);
     dailyNoteTimer = undefined;
   }
+  if (sessionHeartbeatTimer) {
+    clearInterval(sessionHeartbeatTimer);
+    sessionHeartbeatTimer = undefined;
+  }
   // We intentionally do NOT try to log "CLOSE" here because VS Code often
-  // cancels async work at shutdown, which just creates noisy errors.
+  // cancels async work at shutdown, which just creates noisy errors. Instead the
+  // session is marked as ended and the next activation writes the CLOSE entries.
+  closeAllSessionsSync();
+}
+
+function toProjectSlug(projectName: string): string {
+  return projectName.replace(/\s+/g, '_');
 }
 
 function getProjectLabel(folder: vscode.WorkspaceFolder): string {
@@ -1360,7 +4006,11 @@ function getProjectLabel(folder: vscode.WorkspaceFolder): string {
   return folder.name;
 }
 
-async function maybeUpdateFolderIndexForFile(fileUri: vscode.Uri): Promise<void> {
+/**
+ * Updates the index that lists `fileUri` – a note, a folder's index.md or a
+ * folder – after it was created, or (`removed`) deleted or moved away.
+ */
+async function maybeUpdateFolderIndexForFile(fileUri: vscode.Uri, removed = false): Promise<void> {
   // Check global flag
   const config = vscode.workspace.getConfiguration('foamCentral');
   const auto = config.get<boolean>('autoUpdateFolderIndex', true);
@@ -1375,19 +4025,27 @@ async function maybeUpdateFolderIndexForFile(fileUri: vscode.Uri): Promise<void>
 
   const filePath = fileUri.fsPath;
 
-  // Only handle markdown files
-  if (!filePath.toLowerCase().endsWith('.md')) {
+  // Only handle markdown files and folders (a removed path without extension is taken as one)
+  const isNote = filePath.toLowerCase().endsWith('.md');
+  const isFolder = !isNote && (removed
+    ? path.extname(filePath) === ''
+    : await fsp.stat(filePath).then(st => st.isDirectory(), () => false));
+  if (!isNote && !isFolder) {
     return;
   }
-
-  const dir = path.dirname(filePath);
-  const fileName = path.basename(filePath);
-
-  // Skip the index file itself
-  if (fileName.toLowerCase() === 'index.md') {
+  if (isFolder && NOISE_DIRS.has(path.basename(filePath).toLowerCase())) {
     return;
   }
 
+  // An index.md (or a folder) is an entry of the parent folder's index; a note one of its own folder's
+  let dir = path.dirname(filePath);
+  if (isNote && path.basename(filePath).toLowerCase() === INDEX_FILE_NAME) {
+    if (normalizePath(dir) === normalizePath(notesFolder)) {
+      return;
+    }
+    dir = path.dirname(dir);
+  }
+
   // Only operate inside the notes tree
   const notesNorm = normalizePath(notesFolder);
   const dirNorm = normalizePath(dir);
@@ -1395,39 +4053,120 @@ async function maybeUpdateFolderIndexForFile(fileUri: vscode.Uri): Promise<void>
     return;
   }
 
-  const indexPath = path.join(dir, 'index.md');
+  const removedNames = removed && isNote ? [path.basename(filePath).replace(/\.md$/i, '')] : [];
+  await updateFolderIndex(dir, notesFolder, { removedNames });
+}
+
+/** After a rename or move: the old and new folders' indexes, and inside a moved folder its own indexes. */
+async function updateFolderIndexesForRename(oldUri: vscode.Uri, newUri: vscode.Uri): Promise<void> {
+  await maybeUpdateFolderIndexForFile(oldUri, true);
+  await maybeUpdateFolderIndexForFile(newUri);
 
-  // Only update if index.md already exists in that folder
-  try {
-    await fsp.access(indexPath);
-  } catch {
-    return; // no index in this folder, nothing to do
+  const notesFolder = getNotesFolder();
+  const moved = newUri.fsPath;
+  const auto = vscode.workspace.getConfiguration('foamCentral').get<boolean>('autoUpdateFolderIndex', true);
+  if (!auto || !notesFolder || !normalizePath(moved).startsWith(normalizePath(notesFolder))) {
+    return;
+  }
+  if (!(await fsp.stat(moved).then(st => st.isDirectory(), () => false))) {
+    return;
+  }
+
+  // Subfolder links are relative to the notes folder, so every index below changes
+  async function walk(dir: string): Promise<void> {
+    await updateFolderIndex(dir, notesFolder!);
+    for (const entry of await fsp.readdir(dir, { withFileTypes: true }).catch(() => [])) {
+      if (entry.isDirectory() && !NOISE_DIRS.has(entry.name.toLowerCase())) {
+        await walk(path.join(dir, entry.name));
+      }
+    }
   }
+  await walk(moved);
+}
 
-  let content = await fsp.readFile(indexPath, { encoding: 'utf8' });
+interface FolderIndexChange {
+  changed: boolean;     // index.md was rewritten
+  added: string[];      // link targets
+  removed: string[];
+}
 
-  const baseName = path.basename(fileName, '.md');
+function getFolderIndexSortMode(): IndexSortMode {
+  return vscode.workspace.getConfiguration('foamCentral').get<IndexSortMode>('folderIndex.sort') ?? 'name';
+}
 
-  // Escape for regex: [[basename]]
-  const escaped = baseName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  const linkPattern = new RegExp(`\\[\\[${escaped}\\]\\]`);
+/**
+ * Regenerates the managed block of `dir`'s index.md, if the folder has one.
+ * Returns the links it added and removed, or undefined without an index.
+ */
+async function updateFolderIndex(
+  dir: string,
+  notesFolder: string,
+  options: IndexUpdateOptions = {}
+): Promise<FolderIndexChange | undefined> {
+  const indexPath = path.join(dir, INDEX_FILE_NAME);
 
-  if (linkPattern.test(content)) {
-    // Already linked
-    return;
-  }
+  // Read-modify-write under the lock, so two windows adding notes do not drop each other's entry
+  return withNotesLock('folder index', async () => {
+    let content: string;
+    try {
+      content = await fsp.readFile(indexPath, { encoding: 'utf8' });
+    } catch {
+      return undefined; // only update if index.md already exists in that folder
+    }
 
-  if (!content.endsWith('\n')) {
-    content += '\n';
-  }
+    const entries = await readIndexEntries(dir, notesFolder, NOISE_DIRS);
+    const mode = getIndexSortMode(await readFrontMatter(indexPath), getFolderIndexSortMode());
+    const updated = updateIndexContent(content, entries, mode, options);
+    if (updated === content) {
+      return { changed: false, added: [], removed: [] };
+    }
+    await fsp.writeFile(indexPath, updated, { encoding: 'utf8' });
+
+    const before = new Set(getIndexedLinks(content));
+    const after = new Set(getIndexedLinks(updated));
+    return {
+      changed: true,
+      added: [...after].filter(link => !before.has(link)),
+      removed: [...before].filter(link => !after.has(link))
+    };
+  });
+}
+
+// Folders inside the notes tree that never contain notes
+const NOISE_DIRS = new Set(['.git', '.history', '.vscode', '.foam-central']);
+
+async function listMarkdownFiles(rootDir: string): Promise<string[]> {
+  const result: string[] = [];
+
+  async function walk(dir: string): Promise<void> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fsp.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
 
-  // Simple bullet list entry using wiki link
-  content += `- [[${baseName}]]\n`;
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!NOISE_DIRS.has(entry.name.toLowerCase())) {
+          await walk(full);
+        }
+      } else if (entry.isFile() && path.extname(entry.name).toLowerCase() === '.md') {
+        result.push(full);
+      }
+    }
+  }
 
-  await fsp.writeFile(indexPath, content, { encoding: 'utf8' });
+  await walk(rootDir);
+  return result;
 }
 
-async function buildFolderIndexes(): Promise<void> {
+/**
+ * Creates the missing folder indexes. With `force`, every existing index.md is
+ * also reconciled with its folder, and the added and removed links are reported.
+ */
+async function buildFolderIndexes(force = false): Promise<void> {
   const notesFolder = getNotesFolder();
   if (!notesFolder) {
     vscode.window.showWarningMessage('Foam Central: Notes folder is not configured.');
@@ -1435,51 +4174,55 @@ async function buildFolderIndexes(): Promise<void> {
   }
 
   const rootDir = notesFolder;
+  const mode = getFolderIndexSortMode();
   let createdCount = 0;
+  let updatedCount = 0;
+  let addedCount = 0;
+  let removedCount = 0;
 
   async function walk(dir: string): Promise<void> {
     const entries = await fsp.readdir(dir, { withFileTypes: true });
 
-    const mdFiles: string[] = [];
-    const subdirs: string[] = [];
-
     for (const entry of entries) {
-      if (entry.isDirectory()) {
-        const nameLower = entry.name.toLowerCase();
-        // Skip some noise folders
-        if (nameLower === '.git' || nameLower === '.history' || nameLower === '.vscode') {
-          continue;
-        }
-        subdirs.push(path.join(dir, entry.name));
-      } else if (entry.isFile()) {
-        const ext = path.extname(entry.name).toLowerCase();
-        if (ext === '.md' && entry.name.toLowerCase() !== 'index.md') {
-          mdFiles.push(entry.name);
-        }
+      // Skip some noise folders
+      if (entry.isDirectory() && !NOISE_DIRS.has(entry.name.toLowerCase())) {
+        // Recurse first, so the folder's index can link the new subfolder indexes
+        await walk(path.join(dir, entry.name));
       }
     }
 
-    // Recurse first so we process subfolders too
-    for (const sub of subdirs) {
-      await walk(sub);
-    }
-
-    if (mdFiles.length === 0) {
-      return;
-    }
-
-    const indexPath = path.join(dir, 'index.md');
+    const indexPath = path.join(dir, INDEX_FILE_NAME);
 
     // Only create if index.md doesn't exist
     try {
       await fsp.access(indexPath);
-      // index already exists; leave it alone
-      return;
     } catch {
-      // no index, we'll create one
+      await createIndex(dir, indexPath);
+      return;
+    }
+    // index already exists; leave it alone unless forced
+    if (!force) {
+      return;
+    }
+
+    const change = await updateFolderIndex(dir, rootDir, { dropLegacyLinks: true });
+    if (change && (change.added.length > 0 || change.removed.length > 0)) {
+      updatedCount++;
+      addedCount += change.added.length;
+      removedCount += change.removed.length;
+      const rel = path.relative(rootDir, indexPath).replace(/\\/g, '/');
+      logChannel.appendLine(
+        `Foam Central: ${rel}: ` +
+        [...change.added.map(l => `+[[${l}]]`), ...change.removed.map(l => `-[[${l}]]`)].join(' ')
+      );
     }
+  }
 
-    mdFiles.sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+  async function createIndex(dir: string, indexPath: string): Promise<void> {
+    const indexEntries = await readIndexEntries(dir, rootDir, NOISE_DIRS);
+    if (indexEntries.length === 0) {
+      return;
+    }
 
     const rel = path.relative(rootDir, dir) || '.';
     const title =
@@ -1487,23 +4230,28 @@ async function buildFolderIndexes(): Promise<void> {
         ? 'Notes Index'
         : `Index for ${rel.replace(/\\/g, '/')}`;
 
-    const lines: string[] = [
-      `# ${title}`,
-      '',
-      ...mdFiles.map((fname) => {
-        const base = path.basename(fname, '.md');
-        return `- [[${base}]]`;
-      }),
-      ''
-    ];
-
-    await fsp.writeFile(indexPath, lines.join('\n'), { encoding: 'utf8' });
+    const content = updateIndexContent(`# ${title}\n`, indexEntries, mode);
+    await withNotesLock('folder index', () =>
+      fsp.writeFile(indexPath, content, { encoding: 'utf8' })
+    );
     createdCount++;
   }
 
   await walk(rootDir);
 
-  vscode.window.showInformationMessage(
-    `Foam Central: Created ${createdCount} index.md file(s) under the notes folder.`
+  if (!force) {
+    vscode.window.showInformationMessage(
+      `Foam Central: Created ${createdCount} index.md file(s) under the notes folder.`
+    );
+    return;
+  }
+
+  const choice = await vscode.window.showInformationMessage(
+    `Foam Central: Created ${createdCount} and updated ${updatedCount} index.md file(s) ` +
+    `(${addedCount} link(s) added, ${removedCount} removed).`,
+    ...(updatedCount > 0 ? ['Show Details'] : [])
   );
+  if (choice === 'Show Details') {
+    logChannel.show(true);
+  }
 }
@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { readFrontMatter } from './journalLayout';
+import { updateManagedBlock } from './managedBlock';
+
+/*
+ * Folder indexes (index.md).
+ *
+ * The generated part of an index sits between two HTML comment markers, so a
+ * hand-written introduction above (or notes below) it is kept. It links the
+ * folder's subfolders that have their own index.md, then its notes, each with
+ * the note's title (front matter `title`, else the first `# heading`) and its
+ * front matter `description` / `summary`.
+ */
+
+export type IndexSortMode = 'name' | 'created' | 'modified' | 'order';
+
+export interface IndexEntry {
+  kind: 'folder' | 'note';
+  name: string;            // file name without .md, or the folder name
+  link: string;            // wiki link target
+  title: string;
+  description?: string;
+  order?: number;          // front matter `order`
+  created: number;         // epoch ms
+  modified: number;
+}
+
+export const INDEX_FILE_NAME = 'index.md';
+export const INDEX_BLOCK_BEGIN = '<!-- foam-central:index (generated, edits inside are replaced) -->';
+export const INDEX_BLOCK_END = '<!-- /foam-central:index -->';
+
+const SORT_MODES: IndexSortMode[] = ['name', 'created', 'modified', 'order'];
+
+/**
+ * The entries of `dir`'s index: subfolders with an index.md and the notes.
+ * Folder links are relative to the notes folder, like the project note links.
+ */
+export async function readIndexEntries(dir: string, notesFolder: string, noiseDirs: Set<string>): Promise<IndexEntry[]> {
+  let dirents: fs.Dirent[];
+  try {
+    dirents = await fsp.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const entries: IndexEntry[] = [];
+  for (const dirent of dirents) {
+    const full = path.join(dir, dirent.name);
+    if (dirent.isDirectory()) {
+      if (noiseDirs.has(dirent.name.toLowerCase())) continue;
+      const childIndex = path.join(full, INDEX_FILE_NAME);
+      if (!fs.existsSync(childIndex)) continue;
+      const rel = path.relative(notesFolder, childIndex).replace(/\\/g, '/').replace(/\.md$/i, '');
+      entries.push(await readEntry('folder', dirent.name, rel, childIndex));
+    } else if (dirent.isFile() && /\.md$/i.test(dirent.name) && dirent.name.toLowerCase() !== INDEX_FILE_NAME) {
+      const base = dirent.name.replace(/\.md$/i, '');
+      entries.push(await readEntry('note', base, base, full));
+    }
+  }
+  return entries;
+}
+
+export function sortIndexEntries(entries: IndexEntry[], mode: IndexSortMode): IndexEntry[] {
+  const byName = (a: IndexEntry, b: IndexEntry) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+  const compare: Record<IndexSortMode, (a: IndexEntry, b: IndexEntry) => number> = {
+    name: byName,
+    // Newest first
+    created: (a, b) => b.created - a.created || byName(a, b),
+    modified: (a, b) => b.modified - a.modified || byName(a, b),
+    // Entries without `order` after the ordered ones
+    order: (a, b) => (a.order ?? Infinity) - (b.order ?? Infinity) || byName(a, b)
+  };
+  return [...entries].sort(compare[mode]);
+}
+
+/** The lines of the generated block: subfolders first, then notes. */
+export function renderIndexEntries(entries: IndexEntry[], mode: IndexSortMode): string[] {
+  const folders = sortIndexEntries(entries.filter(e => e.kind === 'folder'), mode);
+  const notes = sortIndexEntries(entries.filter(e => e.kind === 'note'), mode);
+  const line = (e: IndexEntry) => {
+    const alias = e.title && e.title !== e.name ? `|${e.title.replace(/[|\]]/g, ' ').trim()}` : '';
+    return `- [[${e.link}${alias}]]` + (e.description ? ` – ${e.description}` : '');
+  };
+
+  if (folders.length === 0) {
+    return notes.map(line);
+  }
+  return [
+    '## Folders',
+    '',
+    ...folders.map(line),
+    ...(notes.length > 0 ? ['', '## Notes', '', ...notes.map(line)] : [])
+  ];
+}
+
+export interface IndexUpdateOptions {
+  removedNames?: string[];      // notes deleted or moved away: their bare lines go too
+  dropLegacyLinks?: boolean;    // drop every bare `- [[note]]` line (forced rebuild)
+}
+
+/**
+ * `existing` index.md with the generated block replaced. An index written
+ * before the block existed has a bare `- [[note]]` line per note; those lines
+ * are dropped when the block is first added, so nothing is listed twice.
+ */
+export function updateIndexContent(
+  existing: string,
+  entries: IndexEntry[],
+  mode: IndexSortMode,
+  options: IndexUpdateOptions = {}
+): string {
+  let content = existing;
+  if (!existing.includes(INDEX_BLOCK_BEGIN)) {
+    const names = new Set([...entries.map(e => e.link), ...(options.removedNames ?? [])]);
+    content = existing
+      .split(/\r?\n/)
+      .filter(l => {
+        const link = parseLegacyLine(l);
+        return !(link && (options.dropLegacyLinks || names.has(link)));
+      })
+      .join(existing.includes('\r\n') ? '\r\n' : '\n');
+  }
+  return updateManagedBlock(content, INDEX_BLOCK_BEGIN, INDEX_BLOCK_END, renderIndexEntries(entries, mode));
+}
+
+/** Link targets the index lists: those in the generated block, or the bare lines of an older index. */
+export function getIndexedLinks(content: string): string[] {
+  const start = content.indexOf(INDEX_BLOCK_BEGIN);
+  const stop = content.indexOf(INDEX_BLOCK_END, start);
+  if (start >= 0 && stop > start) {
+    const block = content.slice(start + INDEX_BLOCK_BEGIN.length, stop);
+    return [...block.matchAll(/^\s*[-*]\s+\[\[([^\]|]+)/gm)].map(m => m[1]);
+  }
+  return content
+    .split(/\r?\n/)
+    .map(parseLegacyLine)
+    .filter((link): link is string => !!link);
+}
+
+/** The sort mode of an index: its own front matter `sort`, else `fallback`. */
+export function getIndexSortMode(frontMatter: Record<string, string>, fallback: IndexSortMode): IndexSortMode {
+  const mode = (frontMatter.sort ?? '').toLowerCase() as IndexSortMode;
+  return SORT_MODES.includes(mode) ? mode : fallback;
+}
+
+/* ---------- internals ---------- */
+
+// The target of a bare `- [[note]]` line as older indexes had them
+function parseLegacyLine(line: string): string | undefined {
+  return /^\s*[-*]\s+\[\[([^\]|]+)\]\]\s*$/.exec(line)?.[1];
+}
+
+async function readEntry(kind: IndexEntry['kind'], name: string, link: string, filePath: string): Promise<IndexEntry> {
+  const fm = await readFrontMatter(filePath);
+  const stat = await fsp.stat(filePath).catch(() => undefined);
+  const modified = stat?.mtimeMs ?? 0;
+  const created = parseDate(fm.created ?? fm.date) ?? (stat && stat.birthtimeMs > 0 ? stat.birthtimeMs : modified);
+  const order = fm.order !== undefined && fm.order !== '' && Number.isFinite(Number(fm.order)) ? Number(fm.order) : undefined;
+
+  return {
+    kind,
+    name,
+    link,
+    title: fm.title || (await readFirstHeading(filePath)) || name,
+    description: (fm.description || fm.summary || '').trim() || undefined,
+    order,
+    created,
+    modified
+  };
+}
+
+async function readFirstHeading(filePath: string): Promise<string | undefined> {
+  let content: string;
+  try {
+    content = await fsp.readFile(filePath, 'utf8');
+  } catch {
+    return undefined;
+  }
+  const body = content.replace(/^---\r?\n[\s\S]*?\r?\n---/, '');
+  const heading = /^#\s+(.+?)\s*#*\s*$/m.exec(body)?.[1];
+  // Generated folder indexes start with "# Index for <path>"; the folder name reads better
+  return heading && !/^(Index for |Notes Index$)/.test(heading) ? heading : undefined;
+}
+
+function parseDate(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
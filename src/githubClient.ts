@@ -0,0 +1,242 @@
+import { HttpRequester, HttpResponse, httpJsonRequest } from './httpRequest';
+
+/*
+ * GitHub REST API client for github.com and GitHub Enterprise Server
+ * (API at https://<host>/api/v3).
+ *
+ * Failed requests throw GitHubApiError with GitHub's message and `errors[]`
+ * details. Server errors (5xx) of idempotent requests and secondary rate
+ * limits are retried with backoff; a POST that failed with a 5xx may still
+ * have been carried out (e.g. the repository was created), so it is not
+ * retried. An exhausted primary rate limit throws GitHubRateLimitError right
+ * away, since it only resets after up to an hour. List endpoints are followed
+ * through their `Link: <…>; rel="next"` headers.
+ */
+
+export const DEFAULT_GITHUB_API_URL = 'https://api.github.com';
+
+export interface GitHubClientOptions {
+  apiUrl?: string;                          // default: https://api.github.com
+  token: string;
+  request?: HttpRequester;
+  maxRetries?: number;                      // default: 3
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/** One entry of the `errors` array of a GitHub error response. */
+export interface GitHubErrorDetail {
+  resource?: string;
+  field?: string;
+  code?: string;
+  message?: string;
+}
+
+export interface GitHubRepo {
+  name: string;
+  full_name: string;
+  private: boolean;
+  clone_url: string;
+  owner: { login: string };
+}
+
+export class GitHubApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,                // 0: GitHub could not be reached
+    readonly errors: GitHubErrorDetail[] = [],
+    readonly documentationUrl?: string
+  ) {
+    super(message);
+    this.name = 'GitHubApiError';
+  }
+}
+
+export class GitHubRateLimitError extends GitHubApiError {
+  constructor(message: string, status: number, readonly resetAt: Date | undefined) {
+    super(message, status);
+    this.name = 'GitHubRateLimitError';
+  }
+}
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+const MAX_PAGES = 50;
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+export class GitHubClient {
+  readonly apiUrl: string;
+  private readonly request: HttpRequester;
+  private readonly maxRetries: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(private readonly options: GitHubClientOptions) {
+    this.apiUrl = (options.apiUrl || DEFAULT_GITHUB_API_URL).trim().replace(/\/+$/, '');
+    this.request = options.request ?? httpJsonRequest;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+  }
+
+  /** True for github.com, false for a GitHub Enterprise Server. */
+  get isGitHubDotCom(): boolean {
+    return new URL(this.apiUrl).host === 'api.github.com';
+  }
+
+  /** Web URL of the server, e.g. https://github.com or https://ghe.example.com. */
+  get webUrl(): string {
+    return this.isGitHubDotCom ? 'https://github.com' : this.apiUrl.replace(/\/api\/v3$/, '');
+  }
+
+  async getAuthenticatedUser(): Promise<{ login: string }> {
+    const resp = await this.send<{ login?: string }>('GET', '/user');
+    if (!resp.data?.login) {
+      throw new GitHubApiError('GitHub did not return the signed-in user', resp.status);
+    }
+    return { login: resp.data.login };
+  }
+
+  /** All repositories the signed-in user owns, through every page of one listing. */
+  listOwnRepos(): Promise<GitHubRepo[]> {
+    return this.paginate<GitHubRepo>('/user/repos?affiliation=owner&per_page=100');
+  }
+
+  async createPrivateRepo(name: string, description: string): Promise<GitHubRepo> {
+    const resp = await this.send<GitHubRepo>('POST', '/user/repos', { name, private: true, description });
+    return resp.data as GitHubRepo;
+  }
+
+  /** A request that must succeed (2xx); retried on secondary rate limits, and on 5xx unless it is a POST or PATCH. */
+  async send<T = any>(method: string, apiPath: string, body?: unknown): Promise<HttpResponse<T>> {
+    const url = /^https?:\/\//.test(apiPath) ? apiPath : this.apiUrl + apiPath;
+
+    for (let attempt = 0; ; attempt++) {
+      let resp: HttpResponse<T>;
+      try {
+        resp = await this.request(url, {
+          method,
+          headers: {
+            Accept: 'application/vnd.github+json',
+            Authorization: `Bearer ${this.options.token}`,
+            'X-GitHub-Api-Version': '2022-11-28'
+          },
+          body
+        });
+      } catch (err) {
+        throw new GitHubApiError(`${method} ${apiPath}: ${String(err)}`, 0);
+      }
+
+      if (resp.status >= 200 && resp.status < 300) {
+        return resp;
+      }
+
+      const delay = getRetryDelay(method, resp, attempt);
+      if (delay !== undefined && attempt < this.maxRetries) {
+        await this.sleep(delay);
+        continue;
+      }
+      throw toApiError(method, apiPath, resp);
+    }
+  }
+
+  /** Every item of a list endpoint, following `rel="next"` links. */
+  async paginate<T>(apiPath: string): Promise<T[]> {
+    const items: T[] = [];
+    let next: string | undefined = apiPath;
+    for (let page = 0; next && page < MAX_PAGES; page++) {
+      const resp: HttpResponse<T[]> = await this.send<T[]>('GET', next);
+      items.push(...(Array.isArray(resp.data) ? resp.data : []));
+      next = parseLinkHeader(resp.headers['link'])['next'];
+    }
+    return items;
+  }
+}
+
+/** `Link` header relations, e.g. { next: "https://…?page=2", last: "…" }. */
+export function parseLinkHeader(header: string | undefined): Record<string, string> {
+  const links: Record<string, string> = {};
+  for (const part of (header ?? '').split(',')) {
+    const m = /<([^>]+)>\s*;\s*rel="?([^";]+)"?/.exec(part);
+    if (m) {
+      for (const rel of m[2].split(/\s+/)) {
+        links[rel] = m[1];
+      }
+    }
+  }
+  return links;
+}
+
+/** One line per `errors[]` entry, e.g. "Repository.name: name already exists on this account". */
+export function formatGitHubErrors(errors: GitHubErrorDetail[]): string[] {
+  return errors.map(e => {
+    const where = [e.resource, e.field].filter(Boolean).join('.');
+    const what = e.message || e.code || 'invalid';
+    return where ? `${where}: ${what}` : what;
+  });
+}
+
+/* ---------- internals ---------- */
+
+// Milliseconds to wait before retrying, or undefined if the request must not be retried.
+function getRetryDelay(method: string, resp: HttpResponse, attempt: number): number | undefined {
+  const backoff = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+
+  if (resp.status >= 500) {
+    // A rate limit rejects the request; a server error may come after it was carried out
+    return IDEMPOTENT_METHODS.has(method.toUpperCase()) ? backoff : undefined;
+  }
+  if (isPrimaryRateLimit(resp) || !isSecondaryRateLimit(resp)) {
+    return undefined;
+  }
+
+  const retryAfter = Number(resp.headers['retry-after']);
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    // Waiting longer than that is left to the user
+    return retryAfter * 1000 <= MAX_RETRY_DELAY_MS ? retryAfter * 1000 : undefined;
+  }
+  // Without retry-after GitHub asks to wait at least a minute
+  return MAX_RETRY_DELAY_MS;
+}
+
+function isPrimaryRateLimit(resp: HttpResponse): boolean {
+  return (resp.status === 403 || resp.status === 429) && resp.headers['x-ratelimit-remaining'] === '0';
+}
+
+function isSecondaryRateLimit(resp: HttpResponse): boolean {
+  if (resp.status !== 403 && resp.status !== 429) {
+    return false;
+  }
+  return resp.headers['retry-after'] !== undefined || /secondary rate limit|abuse/i.test(getMessage(resp));
+}
+
+function toApiError(method: string, apiPath: string, resp: HttpResponse): GitHubApiError {
+  const message = getMessage(resp) || `status ${resp.status}`;
+  const prefix = `${method} ${apiPath.replace(/^https?:\/\/[^/]+/, '')}`;
+
+  if (isPrimaryRateLimit(resp) || isSecondaryRateLimit(resp)) {
+    const reset = Number(resp.headers['x-ratelimit-reset']);
+    const resetAt = Number.isFinite(reset) && reset > 0 ? new Date(reset * 1000) : undefined;
+    return new GitHubRateLimitError(
+      `${prefix}: ${message}` + (resetAt ? ` (rate limit resets at ${resetAt.toLocaleTimeString()})` : ''),
+      resp.status,
+      resetAt
+    );
+  }
+
+  const errors: GitHubErrorDetail[] = Array.isArray(resp.data?.errors)
+    ? resp.data.errors.map((e: any) => (typeof e === 'string' ? { message: e } : e))
+    : [];
+  const details = formatGitHubErrors(errors);
+  return new GitHubApiError(
+    `${prefix}: ${resp.status} ${message}` + (details.length > 0 ? ` – ${details.join('; ')}` : ''),
+    resp.status,
+    errors,
+    resp.data?.documentation_url
+  );
+}
+
+function getMessage(resp: HttpResponse): string {
+  if (typeof resp.data?.message === 'string') {
+    return resp.data.message;
+  }
+  // Not JSON: an HTML error page of a proxy or plain text
+  return resp.text.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 200);
+}
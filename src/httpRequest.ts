@@ -0,0 +1,74 @@
+import * as http from 'http';
+import * as https from 'https';
+
+/*
+ * Minimal JSON-over-http(s) requests for the hosting APIs. Bodies that are not
+ * JSON (error pages of proxies, plain-text errors) are kept as text.
+ */
+
+export interface HttpResponse<T = any> {
+  status: number;
+  headers: Record<string, string>;   // lower-case names, repeated headers joined with ", "
+  data: T | undefined;               // parsed JSON body, if any
+  text: string;
+}
+
+export interface HttpRequestInit {
+  method: string;
+  headers: Record<string, string>;
+  body?: unknown;                    // sent as JSON
+}
+
+export type HttpRequester = (url: string, init: HttpRequestInit) => Promise<HttpResponse>;
+
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+export function httpJsonRequest(url: string, init: HttpRequestInit): Promise<HttpResponse> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const client = target.protocol === 'http:' ? http : https;
+    const body = init.body === undefined ? undefined : JSON.stringify(init.body);
+    const req = client.request(
+      target,
+      {
+        method: init.method,
+        headers: {
+          'User-Agent': 'foam-central-extension',
+          ...init.headers,
+          ...(body ? { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) } : {})
+        },
+        timeout: REQUEST_TIMEOUT_MS
+      },
+      res => {
+        const chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(chunk));
+        res.on('end', () => {
+          const text = Buffer.concat(chunks).toString('utf8');
+          const headers: Record<string, string> = {};
+          for (const [name, value] of Object.entries(res.headers)) {
+            if (value !== undefined) {
+              headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+            }
+          }
+
+          let data: any = undefined;
+          if (text && /json/.test(headers['content-type'] ?? '')) {
+            try {
+              data = JSON.parse(text);
+            } catch {
+              // not JSON after all, keep the text
+            }
+          }
+          resolve({ status: res.statusCode || 0, headers, data, text });
+        });
+      }
+    );
+
+    req.on('timeout', () => req.destroy(new Error(`request to ${target.host} timed out`)));
+    req.on('error', reject);
+    if (body) {
+      req.write(body);
+    }
+    req.end();
+  });
+}
@@ -0,0 +1,190 @@
+/*
+ * Issue references in commit messages and branch names.
+ *
+ * Each rule of foamCentral.vcs.issueReferences has a pattern (a regular
+ * expression: its first capture group, or else the whole match, is the issue
+ * key) and a URL template with a {key} placeholder. For the github, gitlab and
+ * jira trackers only the base URL is needed. References are turned into
+ * Markdown links; [[wiki links]] and `code` in the text are left alone.
+ *
+ * Branch names are matched with the rule's branch pattern: "#123" is rarely in
+ * a branch name, so github and gitlab look for a number between dashes and
+ * slashes instead ("123-fix-parser", "feature/issue-123").
+ */
+
+export type IssueTracker = 'github' | 'gitlab' | 'jira' | 'custom';
+
+/** One entry of the foamCentral.vcs.issueReferences setting. */
+export interface IssueReferenceSetting {
+  tracker?: IssueTracker;
+  base?: string;        // e.g. https://github.com/owner/repo or https://acme.atlassian.net
+  pattern?: string;     // overrides the tracker's pattern
+  branchPattern?: string;   // overrides the tracker's pattern for branch names
+  url?: string;         // overrides the tracker's URL template
+}
+
+export interface IssueRule {
+  pattern: RegExp;
+  branchPattern: RegExp;
+  branchText?: string;        // template with {key} for references in branch names; default: as written
+  url: string | undefined;    // template with {key}; undefined: no link, only the issue note
+}
+
+export interface IssueReference {
+  key: string;                // e.g. "123" or "JIRA-456"
+  text: string;               // as written, e.g. "#123"
+  url: string | undefined;
+}
+
+interface TrackerDefaults {
+  pattern: string;
+  branchPattern?: string;     // default: pattern
+  branchText?: string;
+  url: string;
+}
+
+// A number between dashes and slashes, but not the number of a key like JIRA-456
+const NUMBERED_BRANCH_PATTERN = '(?:^|/|(?<![A-Z][A-Z0-9_]*)-)(\\d+)(?=-|$)';
+
+const TRACKER_DEFAULTS: Record<Exclude<IssueTracker, 'custom'>, TrackerDefaults> = {
+  github: {
+    pattern: '(?<![\\w/&])#(\\d+)\\b',
+    branchPattern: NUMBERED_BRANCH_PATTERN,
+    branchText: '#{key}',
+    url: '{base}/issues/{key}'
+  },
+  gitlab: {
+    pattern: '(?<![\\w/&])#(\\d+)\\b',
+    branchPattern: NUMBERED_BRANCH_PATTERN,
+    branchText: '#{key}',
+    url: '{base}/-/issues/{key}'
+  },
+  jira: { pattern: '\\b([A-Z][A-Z0-9_]+-\\d+)\\b', url: '{base}/browse/{key}' }
+};
+
+// Spans that must not be linked: [[wiki links]], [text](links) and `code`
+const PROTECTED_SPAN = /\[\[[^\]]*\]\]|\[[^\]]*\]\([^)]*\)|`[^`]*`/g;
+
+interface ReferenceMatch {
+  index: number;
+  length: number;
+  ref: IssueReference;
+}
+
+/** Turns the setting into rules; invalid entries are skipped and described in `errors`. */
+export function compileIssueRules(settings: IssueReferenceSetting[]): { rules: IssueRule[]; errors: string[] } {
+  const rules: IssueRule[] = [];
+  const errors: string[] = [];
+
+  settings.forEach((setting, i) => {
+    const tracker = setting.tracker ?? 'custom';
+    const defaults = tracker === 'custom' ? undefined : TRACKER_DEFAULTS[tracker];
+    if (tracker !== 'custom' && !defaults) {
+      errors.push(`entry ${i + 1}: unknown tracker "${tracker}"`);
+      return;
+    }
+
+    const source = setting.pattern?.trim() || defaults?.pattern;
+    if (!source) {
+      errors.push(`entry ${i + 1}: a custom tracker needs a "pattern"`);
+      return;
+    }
+
+    // A custom pattern also applies to branch names, unless a branch pattern is given
+    const branchSource =
+      setting.branchPattern?.trim() || (setting.pattern?.trim() ? source : defaults?.branchPattern ?? source);
+    let pattern: RegExp;
+    let branchPattern: RegExp;
+    try {
+      pattern = new RegExp(source, 'g');
+      branchPattern = new RegExp(branchSource, 'g');
+    } catch (err) {
+      errors.push(`entry ${i + 1}: invalid pattern ${source}: ${String(err)}`);
+      return;
+    }
+
+    const base = setting.base?.trim().replace(/\/+$/, '');
+    let url = setting.url?.trim() || defaults?.url;
+    if (url?.includes('{base}')) {
+      if (!base) {
+        errors.push(`entry ${i + 1}: the ${tracker} tracker needs a "base" URL`);
+        return;
+      }
+      url = url.split('{base}').join(base);
+    }
+
+    const branchText = setting.pattern?.trim() ? undefined : defaults?.branchText;
+    rules.push({ pattern, branchPattern, branchText, url });
+  });
+
+  return { rules, errors };
+}
+
+/** Issues referenced in `text`, each key once, in order of appearance. */
+export function findIssueReferences(text: string, rules: IssueRule[]): IssueReference[] {
+  return uniqueReferences(scanReferences(text, rules));
+}
+
+/** Issues referenced in a branch name, each key once, e.g. "#123" for "feature/123-parser". */
+export function findBranchIssueReferences(branch: string, rules: IssueRule[]): IssueReference[] {
+  return uniqueReferences(scanReferences(branch, rules, true));
+}
+
+/** `text` with each issue reference that has a URL turned into a Markdown link. */
+export function linkIssueReferences(text: string, rules: IssueRule[]): string {
+  let result = '';
+  let pos = 0;
+  for (const match of scanReferences(text, rules)) {
+    if (!match.ref.url) continue;
+    result += text.slice(pos, match.index) + `[${match.ref.text}](${match.ref.url})`;
+    pos = match.index + match.length;
+  }
+  return result + text.slice(pos);
+}
+
+/** File name (without .md) of an issue's note, e.g. "JIRA-456" or "123". */
+export function getIssueNoteName(key: string): string {
+  return key.replace(/[^\w.-]+/g, '-').replace(/^[-.]+|-+$/g, '') || 'issue';
+}
+
+/* ---------- internals ---------- */
+
+// Matches of all rules outside protected spans, by position; the first rule wins on overlaps.
+function scanReferences(text: string, rules: IssueRule[], branch = false): ReferenceMatch[] {
+  const protectedSpans = [...text.matchAll(PROTECTED_SPAN)].map(m => [m.index!, m.index! + m[0].length]);
+  const isProtected = (start: number, end: number) => protectedSpans.some(([s, e]) => start < e && end > s);
+
+  const matches: ReferenceMatch[] = [];
+  for (const rule of rules) {
+    for (const m of text.matchAll(branch ? rule.branchPattern : rule.pattern)) {
+      const start = m.index!;
+      const end = start + m[0].length;
+      if (m[0].length === 0 || isProtected(start, end)) continue;
+      if (matches.some(o => start < o.index + o.length && end > o.index)) continue;
+
+      const key = m[1] ?? m[0];
+      matches.push({
+        index: start,
+        length: m[0].length,
+        ref: {
+          key,
+          text: branch && rule.branchText ? rule.branchText.split('{key}').join(key) : m[0],
+          url: rule.url?.split('{key}').join(encodeURIComponent(key))
+        }
+      });
+    }
+  }
+  return matches.sort((a, b) => a.index - b.index);
+}
+
+function uniqueReferences(matches: ReferenceMatch[]): IssueReference[] {
+  const seen = new Set<string>();
+  const result: IssueReference[] = [];
+  for (const { ref } of matches) {
+    if (!seen.has(ref.key)) {
+      seen.add(ref.key);
+      result.push(ref);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,241 @@
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { getDailyNoteSlug, getIsoWeekInfo } from './dates';
+
+/*
+ * Journal layout: where daily notes live and what their wiki-link slug is.
+ *
+ * Path patterns are relative to the notes root and may use these tokens:
+ *
+ *   {yyyy} {MM} {dd}   calendar year, month, day
+ *   {wyyyy} {ww}       ISO week-numbering year and ISO week
+ *   {slug}             the note's slug (see slugFormat)
+ *
+ * e.g. "journals/{yyyy}/{MM}/{slug}.md" with slugFormat "{yyyy}-{MM}-{dd}".
+ */
+
+export interface JournalLayout {
+  pathPattern: string;
+  slugFormat: string;
+}
+
+export interface DailyNoteRef {
+  date: string;       // YYYY-MM-DD
+  filePath: string;
+  slug: string;       // basename without extension, as used in [[links]]
+}
+
+export const DEFAULT_SLUG_FORMAT = '{yyyy}-{MM}-{dd}';
+export const WEEKLY_PATH_PATTERN = 'journals/{wyyyy}/week-{ww}/{slug}.md';
+export const FLAT_PATH_PATTERN = 'journals/{slug}.md';
+
+const TOKEN_PATTERN = /\{(yyyy|MM|dd|wyyyy|ww|slug)\}/g;
+
+/**
+ * The [[link]] target of the daily note of `date`: its file name without the
+ * extension. That is the slug format when the pattern's file name is `{slug}`,
+ * and e.g. "19" for "daily/{yyyy}/W{ww}/{dd}.md".
+ */
+export function getJournalSlug(layout: JournalLayout, date: Date): string {
+  const fileName = path.posix.basename(expandPath(layout, date));
+  return fileName.slice(0, fileName.length - path.posix.extname(fileName).length);
+}
+
+export function getDailyNotePath(notesFolder: string, layout: JournalLayout, date: Date): string {
+  return path.join(notesFolder, ...expandPath(layout, date).split('/'));
+}
+
+/**
+ * The week folder (holding todo.md and the weekly report) that the daily note
+ * of `date` lives in, or undefined if the layout does not group notes by week.
+ */
+export function getWeekFolder(notesFolder: string, layout: JournalLayout, date: Date): string | undefined {
+  if (!hasWeekFolders(layout)) {
+    return undefined;
+  }
+  return path.dirname(getDailyNotePath(notesFolder, layout, date));
+}
+
+export function hasWeekFolders(layout: JournalLayout): boolean {
+  return path.posix.dirname(layout.pathPattern).includes('{ww}');
+}
+
+/**
+ * Glob (relative to the notes root) matching every daily note: each token
+ * becomes a `*`, so the slug "{yyyy}-{MM}-{dd}" matches as "*-*-*".
+ */
+export function getDailyNoteGlob(layout: JournalLayout): string {
+  return layout.pathPattern
+    .replace(/\{slug\}/g, layout.slugFormat)
+    .replace(TOKEN_PATTERN, '*')
+    .replace(/\*+/g, '*');
+}
+
+/** The static part of the pattern, e.g. <notes>/journals for "journals/{yyyy}/...". */
+export function getJournalRoot(notesFolder: string, layout: JournalLayout): string {
+  const staticParts: string[] = [];
+  for (const part of path.posix.dirname(layout.pathPattern).split('/')) {
+    if (part === '.' || part.includes('{')) break;
+    staticParts.push(part);
+  }
+  return path.join(notesFolder, ...staticParts);
+}
+
+/**
+ * Builds a layout from Foam's own daily note settings
+ * (foam.openDailyNote.directory / filenameFormat / fileExtension), so both
+ * tools write to the same file.
+ */
+export function fromFoamDailyNoteSettings(
+  notesFolder: string,
+  directory: string | undefined,
+  filenameFormat: string | undefined,
+  fileExtension: string | undefined
+): JournalLayout {
+  let dir = (directory || 'journals').trim().replace(/\\/g, '/');
+  if (path.isAbsolute(dir)) {
+    dir = path.relative(notesFolder, dir).replace(/\\/g, '/');
+  }
+  dir = dir.replace(/^\.\/?/, '').replace(/\/+$/, '');
+
+  const ext = (fileExtension || 'md').replace(/^\./, '');
+  return {
+    pathPattern: `${dir ? dir + '/' : ''}{slug}.${ext}`,
+    slugFormat: convertDateFormatMask(filenameFormat || 'isoDate')
+  };
+}
+
+/**
+ * Finds the daily notes among `files`: notes with `type: daily-note` and a
+ * `date:` in their front matter, legacy `YYYY-MM-DD.md` files, and files whose
+ * path matches the current layout.
+ */
+export async function findDailyNotes(layout: JournalLayout, notesFolder: string, files: string[]): Promise<DailyNoteRef[]> {
+  const layoutRegex = buildPathRegex(layout);
+  const result: DailyNoteRef[] = [];
+
+  for (const filePath of files) {
+    const slug = path.basename(filePath, path.extname(filePath));
+    let date: string | undefined;
+
+    const frontMatter = await readFrontMatter(filePath);
+    if (frontMatter.type === 'daily-note' && /^\d{4}-\d{2}-\d{2}$/.test(frontMatter.date || '')) {
+      date = frontMatter.date;
+    } else if (/^\d{4}-\d{2}-\d{2}$/.test(slug) && !frontMatter.type) {
+      date = slug;
+    } else {
+      const relative = path.relative(notesFolder, filePath).replace(/\\/g, '/');
+      const m = layoutRegex.exec(relative);
+      if (m?.groups?.yyyy && m.groups.MM && m.groups.dd) {
+        date = `${m.groups.yyyy}-${m.groups.MM}-${m.groups.dd}`;
+      }
+    }
+
+    if (date) {
+      result.push({ date, filePath, slug });
+    }
+  }
+
+  return result.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** Parses a YYYY-MM-DD string as a local date. */
+export function parseIsoDay(day: string): Date {
+  const [y, m, d] = day.split('-').map(n => parseInt(n, 10));
+  return new Date(y, m - 1, d);
+}
+
+/** Reads the simple `key: value` pairs of a note's front matter (first 1 KB only). */
+export async function readFrontMatter(filePath: string): Promise<Record<string, string>> {
+  let content: string;
+  try {
+    const handle = await fsp.open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(1024);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      content = buffer.toString('utf8', 0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return {};
+  }
+
+  const m = /^---\r?\n([\s\S]*?)\r?\n---/.exec(content);
+  if (!m) {
+    return {};
+  }
+
+  const result: Record<string, string> = {};
+  for (const line of m[1].split(/\r?\n/)) {
+    const kv = /^([\w-]+):\s*(.*?)\s*$/.exec(line);
+    if (kv) {
+      result[kv[1]] = kv[2].replace(/^['"]|['"]$/g, '');
+    }
+  }
+  return result;
+}
+
+/* ---------- internals ---------- */
+
+function expandPath(layout: JournalLayout, date: Date): string {
+  return expandTokens(layout.pathPattern, date, expandTokens(layout.slugFormat, date, ''));
+}
+
+function expandTokens(pattern: string, date: Date, slug: string): string {
+  const iso = getDailyNoteSlug(date); // YYYY-MM-DD in local time
+  const week = getIsoWeekInfo(date);
+
+  return pattern.replace(TOKEN_PATTERN, (_m, token: string) => {
+    switch (token) {
+      case 'yyyy': return iso.slice(0, 4);
+      case 'MM': return iso.slice(5, 7);
+      case 'dd': return iso.slice(8, 10);
+      case 'wyyyy': return String(week.year);
+      case 'ww': return week.week.toString().padStart(2, '0');
+      default: return slug;
+    }
+  });
+}
+
+function buildPathRegex(layout: JournalLayout): RegExp {
+  const seen = new Set<string>();
+  const toRegex = (pattern: string): string =>
+    pattern
+      .split(TOKEN_PATTERN)
+      .map((part, i) => {
+        if (i % 2 === 0) {
+          return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+        if (part === 'slug') {
+          return toRegex(layout.slugFormat);
+        }
+        const width = part === 'yyyy' || part === 'wyyyy' ? 4 : 2;
+        // Only the first occurrence of a token becomes a named group.
+        if (seen.has(part)) {
+          return `\\d{${width}}`;
+        }
+        seen.add(part);
+        return `(?<${part}>\\d{${width}})`;
+      })
+      .join('');
+
+  return new RegExp(`^${toRegex(layout.pathPattern)}$`);
+}
+
+// Foam uses dateformat masks (e.g. "isoDate", "yyyy-mm-dd", "'W'W").
+function convertDateFormatMask(mask: string): string {
+  if (mask === 'isoDate') {
+    return DEFAULT_SLUG_FORMAT;
+  }
+  return mask.replace(/'([^']*)'|"([^"]*)"|yyyy|mm|dd|WW|W/g, (m, single, double) => {
+    if (single !== undefined) return single;
+    if (double !== undefined) return double;
+    switch (m) {
+      case 'yyyy': return '{yyyy}';
+      case 'mm': return '{MM}';
+      case 'dd': return '{dd}';
+      default: return '{ww}';
+    }
+  });
+}
@@ -0,0 +1,20 @@
+/*
+ * Blocks of generated lines inside files the user also edits (.gitattributes,
+ * .gitignore), delimited by a begin and an end marker line. Only the block is
+ * rewritten; everything around it is kept.
+ */
+
+/** `existing` with the block between `begin` and `end` replaced by `lines` (appended if missing). */
+export function updateManagedBlock(existing: string, begin: string, end: string, lines: string[]): string {
+  const eol = existing.includes('\r\n') ? '\r\n' : '\n';
+  const block = [begin, ...lines, end].join(eol);
+
+  const start = existing.indexOf(begin);
+  const stop = existing.indexOf(end, start);
+  if (start >= 0 && stop > start) {
+    return existing.slice(0, start) + block + existing.slice(stop + end.length);
+  }
+
+  const trimmed = existing.replace(/\s+$/, '');
+  return (trimmed ? trimmed + eol + eol : '') + block + eol;
+}
@@ -0,0 +1,336 @@
+/*
+ * Section-aware editing of Markdown notes.
+ *
+ * Entries are inserted at the end of a heading's section (e.g. "## Log" in a
+ * daily note, "## Activity" in home.md) instead of the end of the file, so
+ * text the user adds below a section is left alone. Front matter and fenced
+ * code blocks are never mistaken for headings, and the file's line endings
+ * (LF or CRLF) are kept.
+ */
+
+export interface SectionInsertOptions {
+  /**
+   * Keeps entries in chronological order: the new entry goes before the first
+   * existing entry with a later key. Lines without a key belong to the entry
+   * above them. Without it, entries are appended at the end of the section.
+   */
+  sortKey?: (line: string) => string | undefined;
+  /** Separate entries with a blank line (for entries that are sub-headings). */
+  blankLineBetween?: boolean;
+  /**
+   * Without a heading of that title, use the first heading of the same level
+   * whose title this accepts (e.g. a vcs.md H1 retitled by a template, but not
+   * a nested repository's section).
+   */
+  otherTitles?: (title: string) => boolean;
+}
+
+/** A text insertion at a character offset of the original content. */
+export interface SectionInsert {
+  offset: number;
+  text: string;
+}
+
+interface ParsedHeading {
+  level: number;
+  title: string;
+}
+
+interface SectionRange {
+  start: number;      // heading line
+  end: number;        // exclusive: next heading of the same or a higher level
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+// - 09:12 [OPEN] ...
+const DAILY_ENTRY_KEY = /^\s*[-*+]\s+(\d{1,2}):(\d{2})\b/;
+// - [[2026-10-19]] opened at 09:12 / - [[slug|2026-10-19]] 14:02 ...
+const LINKED_ENTRY_KEY = /^\s*[-*+]\s+\[\[[^\]]*?(\d{4}-\d{2}-\d{2})\]\]\s+(?:[a-z]+ at\s+)?(\d{1,2}):(\d{2})\b/i;
+// ## 2026-10-19 09:12 [COMMIT] (main)
+const HEADING_ENTRY_KEY = /^#{2,6}\s+(\d{4}-\d{2}-\d{2})\s+(\d{1,2}):(\d{2})\b/;
+
+/**
+ * Sort key of the entries Foam Central writes: the time of a daily note line,
+ * or date and time of a home.md line or vcs.md entry heading.
+ */
+export function getEntrySortKey(line: string): string | undefined {
+  let m = DAILY_ENTRY_KEY.exec(line);
+  if (m) {
+    return `${m[1].padStart(2, '0')}:${m[2]}`;
+  }
+  m = LINKED_ENTRY_KEY.exec(line) || HEADING_ENTRY_KEY.exec(line);
+  if (m) {
+    return `${m[1]} ${m[2].padStart(2, '0')}:${m[3]}`;
+  }
+  return undefined;
+}
+
+/**
+ * Works out where `entry` goes in the `heading` section of `content` (e.g.
+ * heading "## Log"). If the section is missing it is added at the end of the
+ * note, after any front matter.
+ */
+export function planSectionInsert(
+  content: string,
+  heading: string,
+  entry: string[],
+  options: SectionInsertOptions = {}
+): SectionInsert {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+  const target = parseHeading(heading);
+  if (!target) {
+    throw new Error(`Not a Markdown heading: ${heading}`);
+  }
+
+  const range = findSection(lines, target, options.otherTitles);
+  let insertAt: number;
+  let insert: string[];
+
+  if (!range) {
+    insertAt = lastNonBlank(lines, getBodyStart(lines), lines.length) + 1;
+    insert = insertAt > 0 ? ['', heading, '', ...entry] : [heading, '', ...entry];
+  } else {
+    const lastContent = lastNonBlank(lines, range.start + 1, range.end);
+    const before = options.sortKey ? findLaterEntry(lines, range, entry, options.sortKey) : undefined;
+
+    if (before !== undefined) {
+      insertAt = before;
+      insert = options.blankLineBetween ? [...entry, ''] : entry;
+    } else {
+      insertAt = lastContent + 1;
+      insert = insertAt === range.start + 1 || options.blankLineBetween ? ['', ...entry] : entry;
+      // Keep a blank line before the next heading
+      if (insertAt === range.end && range.end < lines.length) {
+        insert = [...insert, ''];
+      }
+    }
+  }
+
+  const lineStarts = getLineStarts(content);
+  if (insertAt < lines.length) {
+    return { offset: lineStarts[insertAt], text: insert.join(eol) + eol };
+  }
+  // After the last line of a file without a trailing newline
+  return { offset: content.length, text: (content.length > 0 ? eol : '') + insert.join(eol) + eol };
+}
+
+/** planSectionInsert() applied to a string. */
+export function insertIntoSection(
+  content: string,
+  heading: string,
+  entry: string[],
+  options: SectionInsertOptions = {}
+): string {
+  const { offset, text } = planSectionInsert(content, heading, entry, options);
+  return content.slice(0, offset) + text + content.slice(offset);
+}
+
+/**
+ * Inserts many entries into the `heading` section in one pass, with the same
+ * result as insertIntoSection() for each of them in turn; entries without a
+ * sort key go last. For backfilling a long history, where inserting one by one
+ * would rescan the growing note every time.
+ */
+export function insertEntriesIntoSection(
+  content: string,
+  heading: string,
+  entries: string[][],
+  options: SectionInsertOptions = {}
+): string {
+  if (entries.length === 0) {
+    return content;
+  }
+  const target = parseHeading(heading);
+  if (!target) {
+    throw new Error(`Not a Markdown heading: ${heading}`);
+  }
+
+  // A missing section is added with the first entry
+  let pending = entries;
+  if (!findSection(content.split(/\r?\n/), target, options.otherTitles)) {
+    content = insertIntoSection(content, heading, entries[0], options);
+    pending = entries.slice(1);
+  }
+
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+  const range = findSection(lines, target, options.otherTitles) as SectionRange;
+  const sortKey = options.sortKey;
+
+  // Each entry goes before the first existing one with a later key of the same shape,
+  // else at the end; sorted first, the search for each key shape only moves forward
+  const keyed = pending.map((entry, order) => ({ entry, order, key: sortKey && entry.length > 0 ? sortKey(entry[0]) : undefined }));
+  if (sortKey) {
+    keyed.sort((a, b) =>
+      a.key === undefined || b.key === undefined
+        ? (a.key === undefined ? 1 : 0) - (b.key === undefined ? 1 : 0) || a.order - b.order
+        : a.key < b.key ? -1 : a.key > b.key ? 1 : a.order - b.order
+    );
+  }
+  const existing = new Map<number, Array<{ line: number; key: string }>>();
+  for (let i = range.start + 1; sortKey && i < range.end; i++) {
+    const key = sortKey(lines[i]);
+    if (key !== undefined) {
+      const sameShape = existing.get(key.length) ?? [];
+      sameShape.push({ line: i, key });
+      existing.set(key.length, sameShape);
+    }
+  }
+  const cursors = new Map<number, number>();
+
+  const before = new Map<number, string[]>();   // line index -> entries inserted above it
+  const appended: string[][] = [];
+  for (const { entry, key } of keyed) {
+    const candidates = key === undefined ? undefined : existing.get(key.length);
+    let cursor = key === undefined ? 0 : cursors.get(key.length) ?? 0;
+    while (candidates && cursor < candidates.length && candidates[cursor].key <= key!) {
+      cursor++;
+    }
+    if (key !== undefined) {
+      cursors.set(key.length, cursor);
+    }
+    if (candidates && cursor < candidates.length) {
+      const line = candidates[cursor].line;
+      const above = before.get(line) ?? [];
+      above.push(...entry, ...(options.blankLineBetween ? [''] : []));
+      before.set(line, above);
+    } else {
+      appended.push(entry);
+    }
+  }
+
+  const lastContent = lastNonBlank(lines, range.start + 1, range.end);
+  const endAt = lastContent + 1;
+  let endLines: string[] = [];
+  appended.forEach((entry, i) => {
+    const blank = options.blankLineBetween || (i === 0 && endAt === range.start + 1);
+    endLines.push(...(blank ? ['', ...entry] : entry));
+  });
+  if (appended.length > 0 && endAt === range.end && range.end < lines.length) {
+    endLines = [...endLines, ''];
+  }
+
+  const out: string[] = [];
+  for (let i = 0; i <= lines.length; i++) {
+    if (i === endAt && endLines.length > 0) {
+      out.push(...endLines);
+    }
+    if (i < lines.length) {
+      out.push(...(before.get(i) ?? []), lines[i]);
+    }
+  }
+  // insertIntoSection() adds a line break after entries at the end of a file without one
+  if (endAt >= lines.length && endLines.length > 0) {
+    out.push('');
+  }
+  return out.join(eol);
+}
+
+/* ---------- internals ---------- */
+
+function parseHeading(line: string): ParsedHeading | undefined {
+  const m = HEADING_PATTERN.exec(line);
+  return m ? { level: m[1].length, title: m[2] } : undefined;
+}
+
+// Index of the first line after the front matter (0 if there is none).
+function getBodyStart(lines: string[]): number {
+  if (lines[0]?.trim() !== '---') {
+    return 0;
+  }
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].trim() === '---' || lines[i].trim() === '...') {
+      return i + 1;
+    }
+  }
+  return 0;
+}
+
+// Headings of the note body as [line index, heading], skipping fenced code.
+function listHeadings(lines: string[]): Array<[number, ParsedHeading]> {
+  const result: Array<[number, ParsedHeading]> = [];
+  let fence: string | undefined;
+
+  for (let i = getBodyStart(lines); i < lines.length; i++) {
+    const f = FENCE_PATTERN.exec(lines[i]);
+    if (f) {
+      if (!fence) {
+        fence = f[1];
+      } else if (f[1] === fence) {
+        fence = undefined;
+      }
+      continue;
+    }
+    if (fence) continue;
+
+    const heading = parseHeading(lines[i]);
+    if (heading) {
+      result.push([i, heading]);
+    }
+  }
+  return result;
+}
+
+function findSection(
+  lines: string[],
+  target: ParsedHeading,
+  otherTitles?: (title: string) => boolean
+): SectionRange | undefined {
+  const headings = listHeadings(lines);
+  const wanted = target.title.toLowerCase();
+
+  let index = headings.findIndex(([, h]) => h.level === target.level && h.title.toLowerCase() === wanted);
+  if (index < 0 && otherTitles) {
+    index = headings.findIndex(([, h]) => h.level === target.level && otherTitles(h.title));
+  }
+  if (index < 0) {
+    return undefined;
+  }
+
+  const next = headings.slice(index + 1).find(([, h]) => h.level <= target.level);
+  return { start: headings[index][0], end: next ? next[0] : lines.length };
+}
+
+// The first line of an entry in the section that sorts after `entry`.
+function findLaterEntry(
+  lines: string[],
+  range: SectionRange,
+  entry: string[],
+  sortKey: (line: string) => string | undefined
+): number | undefined {
+  const key = entry.length > 0 ? sortKey(entry[0]) : undefined;
+  if (key === undefined) {
+    return undefined;
+  }
+
+  for (let i = range.start + 1; i < range.end; i++) {
+    const other = sortKey(lines[i]);
+    // Keys of a different shape (time only vs. date and time) are not comparable
+    if (other !== undefined && other.length === key.length && other > key) {
+      return i;
+    }
+  }
+  return undefined;
+}
+
+function lastNonBlank(lines: string[], from: number, to: number): number {
+  for (let i = to - 1; i >= from; i--) {
+    if (lines[i].trim() !== '') {
+      return i;
+    }
+  }
+  return from - 1;
+}
+
+function getLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
@@ -0,0 +1,86 @@
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+import { NOTES_KEY_ENV, decryptNote, encryptNote, isEncryptedNote, parseNotesKey, readNotesKeyFile } from './notesCrypto';
+
+/*
+ * The git clean/smudge filter for encrypted notes, run by git as
+ *
+ *   ELECTRON_RUN_AS_NODE=1 <VS Code> out/notesCryptFilter.js clean|smudge <path>
+ *
+ * with the note on stdin, by whichever git client runs it. The key comes from
+ * FOAM_CENTRAL_NOTES_KEY or, failing that, from .git/foam-central/notes.key.
+ * clean (working tree -> repository) encrypts and
+ * fails without the key, so git refuses to stage the note in plain text.
+ * smudge (repository -> working tree) decrypts; without the key, or with the
+ * wrong one, the note is checked out still encrypted instead of failing the
+ * checkout.
+ */
+
+async function main(): Promise<number> {
+  const [mode, file = ''] = process.argv.slice(2);
+  const input = await readStdin();
+  const key = parseNotesKey(process.env[NOTES_KEY_ENV]) ?? (await readKeyFromGitDir());
+
+  if (mode === 'clean') {
+    if (isEncryptedNote(input)) {
+      // Checked out without the key: already encrypted
+      process.stdout.write(input);
+      return 0;
+    }
+    if (!key) {
+      process.stderr.write(
+        `foam-central: notes encryption is locked, refusing to stage ${file} unencrypted. ` +
+        'Run "Foam Central: Set Notes Encryption Passphrase" in VS Code.\n'
+      );
+      return 1;
+    }
+    process.stdout.write(encryptNote(input, key));
+    return 0;
+  }
+
+  if (mode === 'smudge') {
+    if (!key || !isEncryptedNote(input)) {
+      process.stdout.write(input);
+      return 0;
+    }
+    try {
+      process.stdout.write(decryptNote(input, key));
+    } catch (err) {
+      process.stderr.write(`foam-central: cannot decrypt ${file} (${String(err)}); left encrypted.\n`);
+      process.stdout.write(input);
+    }
+    return 0;
+  }
+
+  process.stderr.write(`foam-central: unknown filter mode "${mode}"\n`);
+  return 2;
+}
+
+// Git runs filters in the top of the working tree
+async function readKeyFromGitDir(): Promise<Buffer | undefined> {
+  try {
+    const gitDir = execFileSync('git', ['rev-parse', '--git-common-dir'], { encoding: 'utf8' }).trim();
+    return await readNotesKeyFile(path.resolve(gitDir));
+  } catch {
+    return undefined;
+  }
+}
+
+function readStdin(): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    process.stdin.on('data', chunk => chunks.push(chunk));
+    process.stdin.on('end', () => resolve(Buffer.concat(chunks)));
+    process.stdin.on('error', reject);
+  });
+}
+
+main().then(
+  code => {
+    process.exitCode = code;
+  },
+  err => {
+    process.stderr.write(`foam-central: ${String(err)}\n`);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,216 @@
+import * as crypto from 'crypto';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { updateManagedBlock } from './managedBlock';
+
+/*
+ * Encryption of private notes at rest in the notes repo.
+ *
+ * Notes under foamCentral.encryption.folders, and notes with `encrypt: true`
+ * in their front matter, get a git clean/smudge filter: git stores them
+ * AES-256-GCM encrypted and checks them out decrypted, so the working tree
+ * (and the editor) only ever sees plain Markdown.
+ *
+ * The key is derived with scrypt from a passphrase kept in VS Code's secret
+ * storage and the salt in .foam-central/encryption.json (committed, so every
+ * machine derives the same key). Once unlocked, the derived key is kept in
+ * .git/foam-central/notes.key (readable by the user only, like git-crypt's
+ * keys), so every git client on the repo – the SCM view, a terminal – runs
+ * the filter with it. The FOAM_CENTRAL_NOTES_KEY environment variable
+ * overrides the file. Without a key the clean filter refuses to run, so a
+ * note is never committed in plain text.
+ *
+ * The IV is an HMAC of the plain text: the same note always encrypts to the
+ * same bytes, so unchanged notes do not show up as modified.
+ */
+
+export const NOTES_KEY_ENV = 'FOAM_CENTRAL_NOTES_KEY';
+export const CRYPT_FILTER_NAME = 'foam-central-crypt';
+export const ENCRYPTION_CONFIG_FILE = path.join('.foam-central', 'encryption.json');
+export const NOTES_KEY_FILE = path.join('foam-central', 'notes.key');   // under the git dir
+
+const HEADER = '-----BEGIN FOAM CENTRAL ENCRYPTED NOTE v1-----';
+const FOOTER = '-----END FOAM CENTRAL ENCRYPTED NOTE-----';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const SCRYPT_COST = 2 ** 15;
+const KEY_CHECK_LABEL = 'foam-central key check';
+
+const ATTRIBUTES_BEGIN = '# >>> foam-central: encrypted notes (clean/smudge filter)';
+const ATTRIBUTES_END = '# <<< foam-central';
+
+/** .foam-central/encryption.json */
+export interface EncryptionConfig {
+  version: 1;
+  salt: string;        // base64
+  check: string;       // hex HMAC of a fixed label, to tell a wrong passphrase
+}
+
+export async function readEncryptionConfig(notesFolder: string): Promise<EncryptionConfig | undefined> {
+  try {
+    const parsed = JSON.parse(await fsp.readFile(path.join(notesFolder, ENCRYPTION_CONFIG_FILE), 'utf8'));
+    return parsed && typeof parsed.salt === 'string' && typeof parsed.check === 'string' ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** A new salt and the check value of the key derived from `passphrase` with it. */
+export async function createEncryptionConfig(passphrase: string): Promise<{ config: EncryptionConfig; key: Buffer }> {
+  const salt = crypto.randomBytes(16);
+  const key = await deriveNotesKey(passphrase, salt);
+  return { config: { version: 1, salt: salt.toString('base64'), check: getKeyCheck(key) }, key };
+}
+
+/** The key for `config`, or undefined if `passphrase` is not the one it was created with. */
+export async function unlockEncryptionConfig(config: EncryptionConfig, passphrase: string): Promise<Buffer | undefined> {
+  const key = await deriveNotesKey(passphrase, Buffer.from(config.salt, 'base64'));
+  return getKeyCheck(key) === config.check ? key : undefined;
+}
+
+/** Stores the derived key under `gitDir` (the repo's common git dir) for the filter. */
+export async function writeNotesKeyFile(gitDir: string, key: Buffer): Promise<void> {
+  const keyPath = path.join(gitDir, NOTES_KEY_FILE);
+  await fsp.mkdir(path.dirname(keyPath), { recursive: true, mode: 0o700 });
+  await fsp.writeFile(keyPath, key.toString('hex') + '\n', { encoding: 'utf8', mode: 0o600 });
+  // mode only applies to a new file
+  await fsp.chmod(keyPath, 0o600);
+}
+
+/** The key stored under `gitDir`, if any. */
+export async function readNotesKeyFile(gitDir: string): Promise<Buffer | undefined> {
+  const hex = await fsp.readFile(path.join(gitDir, NOTES_KEY_FILE), 'utf8').catch(() => '');
+  return parseNotesKey(hex);
+}
+
+/** A key given as 64 hex digits, as in the key file and FOAM_CENTRAL_NOTES_KEY. */
+export function parseNotesKey(hex: string | undefined): Buffer | undefined {
+  const trimmed = (hex ?? '').trim();
+  return /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, 'hex') : undefined;
+}
+
+export function isEncryptedNote(data: Buffer): boolean {
+  return data.subarray(0, HEADER.length).toString('latin1') === HEADER;
+}
+
+export function encryptNote(plain: Buffer, key: Buffer): Buffer {
+  const { cipherKey, ivKey } = splitKey(key);
+  const iv = crypto.createHmac('sha256', ivKey).update(plain).digest().subarray(0, IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', cipherKey, iv);
+  const encrypted = Buffer.concat([cipher.update(plain), cipher.final()]);
+  const payload = Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+
+  // Wrapped like PEM, so the blob stays a (diffable) text file
+  const lines = payload.match(/.{1,76}/g) ?? [];
+  return Buffer.from([HEADER, ...lines, FOOTER, ''].join('\n'), 'utf8');
+}
+
+/** Throws if `data` is not an encrypted note or was not encrypted with `key`. */
+export function decryptNote(data: Buffer, key: Buffer): Buffer {
+  const text = data.toString('utf8');
+  if (!isEncryptedNote(data) || !text.includes(FOOTER)) {
+    throw new Error('not an encrypted note');
+  }
+  const payload = Buffer.from(
+    text.slice(HEADER.length, text.indexOf(FOOTER)).replace(/\s+/g, ''),
+    'base64'
+  );
+  if (payload.length < IV_BYTES + TAG_BYTES) {
+    throw new Error('encrypted note is truncated');
+  }
+
+  const { cipherKey } = splitKey(key);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', cipherKey, payload.subarray(0, IV_BYTES));
+  decipher.setAuthTag(payload.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(payload.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+/**
+ * The .gitattributes lines (relative to the notes folder) that route notes
+ * through the filter. `binary` keeps git from diffing or line-merging the
+ * encrypted text; it overrides the union merge of append-only notes.
+ */
+export function getEncryptionAttributes(folders: string[], files: string[]): string[] {
+  const folderLines = folders
+    .map(folder => folder.trim().replace(/\\/g, '/').replace(/^\.?\/+|\/+$/g, ''))
+    .filter(Boolean)
+    .map(folder => `${escapeAttributePath(folder, '/**')} filter=${CRYPT_FILTER_NAME} binary`);
+  const fileLines = files.map(file => `${escapeAttributePath(file)} filter=${CRYPT_FILTER_NAME} binary`);
+  return Array.from(new Set([...folderLines, ...fileLines]));
+}
+
+/**
+ * `existing` .gitattributes with the encryption block added or replaced; other
+ * lines are kept. A new block is appended last, so it wins over the union merge.
+ */
+export function updateEncryptionAttributes(existing: string, lines: string[]): string {
+  return updateManagedBlock(existing, ATTRIBUTES_BEGIN, ATTRIBUTES_END, lines);
+}
+
+/** True if `existing` .gitattributes has an encryption block with at least one line. */
+export function hasEncryptionAttributes(existing: string): boolean {
+  const start = existing.indexOf(ATTRIBUTES_BEGIN);
+  const stop = existing.indexOf(ATTRIBUTES_END, start);
+  return start >= 0 && stop > start && /\S/.test(existing.slice(start + ATTRIBUTES_BEGIN.length, stop));
+}
+
+/** Single files listed in the encryption block of `existing` (folder lines excluded). */
+export function getEncryptedFilesFromAttributes(existing: string): string[] {
+  const start = existing.indexOf(ATTRIBUTES_BEGIN);
+  const stop = existing.indexOf(ATTRIBUTES_END, start);
+  if (start < 0 || stop < start) {
+    return [];
+  }
+  return existing
+    .slice(start + ATTRIBUTES_BEGIN.length, stop)
+    .split(/\r?\n/)
+    .map(line => /^("(?:[^"\\]|\\.)*"|\S+) filter=/.exec(line.trim())?.[1])
+    .filter((p): p is string => !!p && !/\/\*\*"?$/.test(p))
+    .map(unescapeAttributePath);
+}
+
+/** The `git config` values that install the filter; `filterScript` is the compiled notesCryptFilter.js. */
+export function getCryptFilterConfig(nodePath: string, filterScript: string): Array<[string, string]> {
+  // Git runs filters through sh; forward slashes keep Windows paths intact there
+  const command = (mode: string) =>
+    `ELECTRON_RUN_AS_NODE=1 "${nodePath.replace(/\\/g, '/')}" "${filterScript.replace(/\\/g, '/')}" ${mode} %f`;
+  return [
+    [`filter.${CRYPT_FILTER_NAME}.clean`, command('clean')],
+    [`filter.${CRYPT_FILTER_NAME}.smudge`, command('smudge')],
+    [`filter.${CRYPT_FILTER_NAME}.required`, 'true']
+  ];
+}
+
+/* ---------- internals ---------- */
+
+function deriveNotesKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(passphrase, salt, 32, { N: SCRYPT_COST, r: 8, p: 1, maxmem: 64 * 1024 * 1024 }, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+}
+
+// Separate keys for the cipher and the IV derivation
+function splitKey(key: Buffer): { cipherKey: Buffer; ivKey: Buffer } {
+  return {
+    cipherKey: crypto.createHmac('sha256', key).update('foam-central cipher').digest(),
+    ivKey: crypto.createHmac('sha256', key).update('foam-central iv').digest()
+  };
+}
+
+function getKeyCheck(key: Buffer): string {
+  return crypto.createHmac('sha256', key).update(KEY_CHECK_LABEL).digest('hex').slice(0, 32);
+}
+
+// Glob characters in `p` are escaped (not in `suffix`); a pattern with spaces or
+// quotes is C-quoted as a whole, as git reads it: "Private Notes/**"
+function escapeAttributePath(p: string, suffix = ''): string {
+  const escaped = p.replace(/([*?[\\])/g, '\\$1') + suffix;
+  return /[\s"]/.test(escaped) ? `"${escaped.replace(/[\\"]/g, '\\$&')}"` : escaped;
+}
+
+function unescapeAttributePath(p: string): string {
+  const unquoted = /^".*"$/.test(p) ? p.slice(1, -1).replace(/\\(.)/g, '$1') : p;
+  return unquoted.replace(/\\(.)/g, '$1');
+}
@@ -0,0 +1,192 @@
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { updateManagedBlock } from './managedBlock';
+import { readFrontMatter } from './journalLayout';
+import { GitRunner } from './vcsEvents';
+
+/*
+ * What the notes auto-commit stages.
+ *
+ * The notes Git root can be above the notes folder, so by default only
+ * changes inside the notes folder are committed. Within that scope the
+ * include / exclude globs (relative to the notes folder) and the maximum
+ * file size decide; deletions are always committed.
+ */
+
+export interface StagingOptions {
+  repoRoot: string;
+  scopeDir: string;           // only changes below this folder (the repo root for the whole repo)
+  notesFolder: string;        // globs are relative to this folder
+  include: string[];          // empty: everything
+  exclude: string[];
+  maxFileBytes: number;       // 0: no limit
+}
+
+export interface StagingSelection {
+  files: string[];            // repository-relative paths to commit (both sides of a rename)
+  stage: string[];            // the ones `git add` still has to pick up (not already removed from the index)
+  changed: string[];          // the changed files, for the commit message and history
+  skipped: Array<{ file: string; reason: string }>;
+}
+
+interface StatusEntry {
+  status: string;             // the XY columns of `git status --porcelain`
+  file: string;
+  from?: string;              // renames: the old path
+}
+
+const GITIGNORE_BEGIN = '# >>> foam-central: files that never belong in the notes repo';
+const GITIGNORE_END = '# <<< foam-central';
+
+/** Editor, OS and sync-client leftovers. */
+export const DEFAULT_GITIGNORE_LINES = [
+  '.DS_Store',
+  'Thumbs.db',
+  'desktop.ini',
+  '*~',
+  '*.swp',
+  '*.tmp',
+  '.~lock.*#',
+  '.foam-central/*.lock',
+  'node_modules/'
+];
+
+/** `existing` .gitignore with the managed block added or replaced; other lines are kept. */
+export function updateGitIgnore(existing: string): string {
+  return updateManagedBlock(existing, GITIGNORE_BEGIN, GITIGNORE_END, DEFAULT_GITIGNORE_LINES);
+}
+
+/** Changes inside the scope, split into the files to commit and the ones left out. */
+export async function selectChangesToCommit(git: GitRunner, options: StagingOptions): Promise<StagingSelection> {
+  const scope = toRepoPath(options.repoRoot, options.scopeDir) || '.';
+  const out = await git(['status', '--porcelain', '-z', '--untracked-files=all', '--', scope]);
+  const includes = options.include.map(globToRegExp);
+  const excludes = options.exclude.map(globToRegExp);
+
+  const selection: StagingSelection = { files: [], stage: [], changed: [], skipped: [] };
+  for (const entry of parseStatus(out)) {
+    const notesPath = path.relative(options.notesFolder, path.join(options.repoRoot, entry.file)).replace(/\\/g, '/');
+    const deleted = entry.status.includes('D');
+
+    if (includes.length > 0 && !includes.some(re => re.test(notesPath))) {
+      selection.skipped.push({ file: entry.file, reason: 'not included' });
+      continue;
+    }
+    if (excludes.some(re => re.test(notesPath))) {
+      selection.skipped.push({ file: entry.file, reason: 'excluded' });
+      continue;
+    }
+    if (!deleted && options.maxFileBytes > 0) {
+      const size = await fsp.stat(path.join(options.repoRoot, entry.file)).then(s => s.size, () => 0);
+      if (size > options.maxFileBytes) {
+        selection.skipped.push({ file: entry.file, reason: `${(size / 1024 / 1024).toFixed(1)} MB` });
+        continue;
+      }
+    }
+
+    selection.changed.push(entry.file);
+    selection.files.push(entry.file, ...(entry.from ? [entry.from] : []));
+    if (entry.status[0] !== 'D') {
+      selection.stage.push(entry.file);
+    }
+  }
+  return selection;
+}
+
+/**
+ * Titles of the changed notes for the commit message: the front matter title,
+ * else the first heading, else the file name. Other files are listed by name.
+ */
+export async function getChangedNoteTitles(repoRoot: string, files: string[], max = 5): Promise<string> {
+  const titles: string[] = [];
+  for (const file of files.slice(0, max)) {
+    titles.push(await getNoteTitle(path.join(repoRoot, file)));
+  }
+  const more = files.length - titles.length;
+  return titles.join(', ') + (more > 0 ? ` and ${more} more` : '');
+}
+
+/** Matches a path relative to the notes folder; `**` spans folders, `*` and `?` do not. */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+  let re = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '*' && pattern[i + 1] === '*') {
+      // "**/" matches zero or more folders
+      if (pattern[i + 2] === '/') {
+        re += '(?:.*/)?';
+        i += 2;
+      } else {
+        re += '.*';
+        i += 1;
+      }
+    } else if (c === '*') {
+      re += '[^/]*';
+    } else if (c === '?') {
+      re += '[^/]';
+    } else if (c === '{') {
+      const close = pattern.indexOf('}', i);
+      if (close < 0) {
+        re += '\\{';
+        continue;
+      }
+      re += '(?:' + pattern.slice(i + 1, close).split(',').map(escapeRegExp).join('|') + ')';
+      i = close;
+    } else {
+      re += escapeRegExp(c);
+    }
+  }
+  // A pattern without a slash matches the name in any folder, like .gitignore
+  const anywhere = !pattern.includes('/');
+  return new RegExp(`^${anywhere ? '(?:.*/)?' : ''}${re}$`);
+}
+
+/* ---------- internals ---------- */
+
+function parseStatus(out: string): StatusEntry[] {
+  const entries: StatusEntry[] = [];
+  const parts = out.split('\0');
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (part.length < 4) continue;
+    const status = part.slice(0, 2);
+    const entry: StatusEntry = { status, file: part.slice(3) };
+    // With -z the old path of a rename or copy is the next field
+    if (status.includes('R') || status.includes('C')) {
+      entry.from = parts[++i];
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+async function getNoteTitle(filePath: string): Promise<string> {
+  const name = path.basename(filePath);
+  if (!/\.md$/i.test(name)) {
+    return name;
+  }
+
+  const fm = await readFrontMatter(filePath);
+  if (fm.title) {
+    return fm.title;
+  }
+  try {
+    const content = await fsp.readFile(filePath, 'utf8');
+    const heading = /^#\s+(.+?)\s*#*\s*$/m.exec(content.replace(/^---\r?\n[\s\S]*?\r?\n---/, ''));
+    if (heading) {
+      return heading[1];
+    }
+  } catch {
+    // deleted
+  }
+  return name.replace(/\.md$/i, '');
+}
+
+function toRepoPath(repoRoot: string, dir: string): string {
+  return path.relative(repoRoot, dir).replace(/\\/g, '/');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,257 @@
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { GitRunner } from './vcsEvents';
+import { HttpRequester, HttpResponse, httpJsonRequest } from './httpRequest';
+import { DEFAULT_GITHUB_API_URL, GitHubApiError, GitHubClient } from './githubClient';
+
+export { DEFAULT_GITHUB_API_URL };
+
+/*
+ * Where a notes repository can be pushed to.
+ *
+ * GitHub, GitLab and Gitea are reached through their REST APIs at a
+ * configurable base URL (so self-hosted servers, and a local HTTP stand-in,
+ * work the same way). "Existing URL" takes any Git URL as it is, or a local
+ * path, where a bare repository is created if there is none yet.
+ */
+
+export type RemoteProviderKind = 'github' | 'gitlab' | 'gitea' | 'url';
+
+export interface RemoteProvider {
+  readonly kind: RemoteProviderKind;
+  readonly label: string;                 // e.g. "GitLab (gitlab.example.com)"
+  /** Login name of the token's owner; the owner of new repositories. */
+  getUser(): Promise<string>;
+  repoExists(owner: string, name: string): Promise<boolean>;
+  /** Names of all of `owner`'s repositories in one listing, where the API has one. */
+  listRepoNames?(owner: string): Promise<string[]>;
+  /** Creates a private repository owned by the token's user. */
+  createPrivateRepo(name: string, description: string): Promise<void>;
+  getCloneUrl(owner: string, name: string): string;
+}
+
+/** A request the server refused; `status` is 0 when it could not be reached. */
+export class RemoteProviderError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'RemoteProviderError';
+  }
+}
+
+export interface ApiProviderOptions {
+  baseUrl: string;         // web URL of the server (GitHub: the API URL)
+  token: string;
+  request?: HttpRequester;
+}
+
+export const DEFAULT_GITLAB_URL = 'https://gitlab.com';
+
+export class GitHubProvider implements RemoteProvider {
+  readonly kind = 'github';
+  readonly label: string;
+  private readonly client: GitHubClient;
+
+  constructor(options: ApiProviderOptions) {
+    this.client = new GitHubClient({ apiUrl: options.baseUrl, token: options.token, request: options.request });
+    this.label = this.client.isGitHubDotCom ? 'GitHub' : `GitHub Enterprise (${new URL(this.client.apiUrl).host})`;
+  }
+
+  async getUser(): Promise<string> {
+    return (await this.client.getAuthenticatedUser()).login;
+  }
+
+  async repoExists(owner: string, name: string): Promise<boolean> {
+    return (await this.listRepoNames(owner)).some(repo => repo.toLowerCase() === name.toLowerCase());
+  }
+
+  async listRepoNames(owner: string): Promise<string[]> {
+    const repos = await this.client.listOwnRepos();
+    return repos.filter(repo => repo.owner.login.toLowerCase() === owner.toLowerCase()).map(repo => repo.name);
+  }
+
+  async createPrivateRepo(name: string, description: string): Promise<void> {
+    try {
+      await this.client.createPrivateRepo(name, description);
+    } catch (err) {
+      // The create is not retried: a server error can come after the repository was created
+      const created =
+        err instanceof GitHubApiError &&
+        err.status >= 500 &&
+        (await this.getUser().then(owner => this.repoExists(owner, name)).catch(() => false));
+      if (!created) {
+        throw err;
+      }
+    }
+  }
+
+  getCloneUrl(owner: string, name: string): string {
+    return `${this.client.webUrl}/${owner}/${name}.git`;
+  }
+}
+
+export class GitLabProvider implements RemoteProvider {
+  readonly kind = 'gitlab';
+  readonly label: string;
+  private readonly api: ApiClient;
+
+  constructor(private readonly options: ApiProviderOptions) {
+    this.api = new ApiClient(`${trimSlashes(options.baseUrl)}/api/v4`, { 'PRIVATE-TOKEN': options.token }, options.request);
+    this.label = `GitLab (${new URL(options.baseUrl).host})`;
+  }
+
+  async getUser(): Promise<string> {
+    const resp = await this.api.call<{ username?: string }>('GET', '/user', 'get the GitLab user', [200]);
+    return requireField(resp.data?.username, 'username', 'GitLab user');
+  }
+
+  async repoExists(owner: string, name: string): Promise<boolean> {
+    const resp = await this.api.call('GET', `/projects/${encodeURIComponent(`${owner}/${name}`)}`,
+      `look up ${owner}/${name}`, [200, 404]);
+    return resp.status === 200;
+  }
+
+  async createPrivateRepo(name: string, description: string): Promise<void> {
+    await this.api.call('POST', '/projects', `create project ${name}`, [201],
+      { name, path: name, visibility: 'private', description });
+  }
+
+  getCloneUrl(owner: string, name: string): string {
+    return `${trimSlashes(this.options.baseUrl)}/${owner}/${name}.git`;
+  }
+}
+
+export class GiteaProvider implements RemoteProvider {
+  readonly kind = 'gitea';
+  readonly label: string;
+  private readonly api: ApiClient;
+
+  constructor(private readonly options: ApiProviderOptions) {
+    this.api = new ApiClient(`${trimSlashes(options.baseUrl)}/api/v1`, { Authorization: `token ${options.token}` }, options.request);
+    this.label = `Gitea (${new URL(options.baseUrl).host})`;
+  }
+
+  async getUser(): Promise<string> {
+    const resp = await this.api.call<{ login?: string }>('GET', '/user', 'get the Gitea user', [200]);
+    return requireField(resp.data?.login, 'login', 'Gitea user');
+  }
+
+  async repoExists(owner: string, name: string): Promise<boolean> {
+    const resp = await this.api.call('GET', `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}`,
+      `look up ${owner}/${name}`, [200, 404]);
+    return resp.status === 200;
+  }
+
+  async createPrivateRepo(name: string, description: string): Promise<void> {
+    await this.api.call('POST', '/user/repos', `create repository ${name}`, [201],
+      { name, private: true, description });
+  }
+
+  getCloneUrl(owner: string, name: string): string {
+    return `${trimSlashes(this.options.baseUrl)}/${owner}/${name}.git`;
+  }
+}
+
+/**
+ * An existing remote given by URL, or a local / network path to a bare
+ * repository. Owner and name are ignored: the URL is the repository.
+ */
+export class UrlRemoteProvider implements RemoteProvider {
+  readonly kind = 'url';
+  readonly label: string;
+
+  constructor(private readonly target: string, private readonly git: GitRunner) {
+    this.label = `Existing remote (${target})`;
+  }
+
+  /** True for a filesystem path, false for a URL or scp-style address. */
+  get isLocalPath(): boolean {
+    return isLocalGitPath(this.target);
+  }
+
+  async getUser(): Promise<string> {
+    return '';
+  }
+
+  async repoExists(): Promise<boolean> {
+    if (this.isLocalPath) {
+      try {
+        await fsp.access(this.target);
+      } catch {
+        return false;
+      }
+    }
+    try {
+      await this.git(['ls-remote', '--heads', this.getCloneUrl()]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async createPrivateRepo(): Promise<void> {
+    if (!this.isLocalPath) {
+      throw new RemoteProviderError(`cannot create a repository at ${this.target}; create it on the server first`, 0);
+    }
+    await fsp.mkdir(this.target, { recursive: true });
+    await this.git(['init', '--bare', '--initial-branch=main', this.target]);
+  }
+
+  getCloneUrl(): string {
+    return this.isLocalPath ? path.resolve(this.target) : this.target;
+  }
+}
+
+export function isLocalGitPath(target: string): boolean {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(target) || /^file:/i.test(target)) {
+    return false;
+  }
+  // user@host:path (scp-style), but not a Windows drive letter (C:\notes)
+  return !/^[^/\\]+:/.test(target) || /^[a-z]:[\\/]/i.test(target);
+}
+
+/* ---------- internals ---------- */
+
+class ApiClient {
+  readonly baseUrl: string;
+
+  constructor(
+    baseUrl: string,
+    private readonly headers: Record<string, string>,
+    private readonly request: HttpRequester = httpJsonRequest
+  ) {
+    this.baseUrl = trimSlashes(baseUrl);
+  }
+
+  /** Calls the API; a status outside `expected` becomes a RemoteProviderError. */
+  async call<T = any>(
+    method: string,
+    apiPath: string,
+    action: string,
+    expected: number[],
+    body?: unknown
+  ): Promise<HttpResponse<T>> {
+    let resp: HttpResponse;
+    try {
+      resp = await this.request(this.baseUrl + apiPath, { method, headers: this.headers, body });
+    } catch (err) {
+      throw new RemoteProviderError(`failed to ${action}: ${String(err)}`, 0);
+    }
+    if (!expected.includes(resp.status)) {
+      const detail = resp.data?.message ?? resp.data?.error ?? resp.text.slice(0, 200);
+      const text = typeof detail === 'string' ? detail : JSON.stringify(detail);
+      throw new RemoteProviderError(`failed to ${action}: status ${resp.status}${text ? ` (${text})` : ''}`, resp.status);
+    }
+    return resp;
+  }
+}
+
+function trimSlashes(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+function requireField(value: string | undefined, field: string, what: string): string {
+  if (!value) {
+    throw new RemoteProviderError(`the ${what} response has no "${field}"`, 200);
+  }
+  return value;
+}
@@ -0,0 +1,288 @@
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { ActivityEvent } from './activityLog';
+import { getDailyNoteSlug, getIsoWeekInfo, toIsoDate } from './dates';
+import { DailyNoteRef } from './journalLayout';
+
+/*
+ * Weekly / monthly time reports, rolled up from the OPEN, CLOSE and COMMIT
+ * events of the activity log. Days from before the log existed have no
+ * events; for those the [OPEN], [CLOSE] and [COMMIT] lines of the daily
+ * notes are read instead.
+ */
+
+export interface ReportPeriod {
+  kind: 'week' | 'month';
+  firstDay: string;   // YYYY-MM-DD, inclusive
+  lastDay: string;    // YYYY-MM-DD, inclusive
+  title: string;
+  outputPath: string;
+  frontMatter: string[];
+}
+
+interface JournalEntry {
+  day: string;        // YYYY-MM-DD of the daily note
+  noteSlug: string;   // wiki-link target of the daily note
+  minutes: number;    // minutes since midnight
+  kind: string;       // OPEN, CLOSE, COMMIT, ...
+  slug: string;
+  activeMinutes?: number;   // CLOSE: active time of the session
+}
+
+interface ProjectTotals {
+  slug: string;
+  sessions: number;
+  activeMinutes: number;
+  estimatedMinutes: number;
+  commits: number;
+  notes: Map<string, string>;   // day -> daily note slug
+}
+
+// - 09:12 [OPEN] [[projects/<slug>/home]] ...
+const ENTRY_PATTERN = /^\s*-\s+(\d{1,2}):(\d{2})\s+\[([A-Z]+)\]\s+\[\[[^\]|]*?([^/\]|]+)\/home(?:\|[^\]]*)?\]\](.*)$/;
+const ACTIVE_PATTERN = /\bactive (\d+)h (\d+)m\b/;
+
+/**
+ * `weekFolder` is the journal folder of that week when the layout groups notes
+ * by week; otherwise the report goes to <journalRoot>/reports/.
+ */
+export function getWeekReportPeriod(journalRoot: string, weekFolder: string | undefined, date: Date): ReportPeriod {
+  const info = getIsoWeekInfo(date);
+  const weekStr = info.week.toString().padStart(2, '0');
+  const weekEnd = new Date(info.weekStart);
+  weekEnd.setUTCDate(weekEnd.getUTCDate() + 6);
+
+  const firstDay = toIsoDate(info.weekStart);
+  const lastDay = toIsoDate(weekEnd);
+
+  const outputPath = weekFolder
+    ? path.join(weekFolder, 'report.md')
+    : path.join(journalRoot, 'reports', `${info.year}-W${weekStr}.md`);
+
+  return {
+    kind: 'week',
+    firstDay,
+    lastDay,
+    title: `Time report: week ${weekStr} of ${info.year} (${firstDay} – ${lastDay})`,
+    outputPath,
+    frontMatter: [`year: ${info.year}`, `week: ${info.week}`]
+  };
+}
+
+export function getMonthReportPeriod(journalRoot: string, date: Date): ReportPeriod {
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const firstDay = getDailyNoteSlug(new Date(year, date.getMonth(), 1));
+  const lastDay = getDailyNoteSlug(new Date(year, date.getMonth() + 1, 0));
+
+  return {
+    kind: 'month',
+    firstDay,
+    lastDay,
+    title: `Time report: ${year}-${month} (${firstDay} – ${lastDay})`,
+    outputPath: path.join(journalRoot, 'reports', `${year}-${month}.md`),
+    frontMatter: [`year: ${year}`, `month: ${date.getMonth() + 1}`]
+  };
+}
+
+/**
+ * Builds the report for `period` from the activity `events` (and the daily
+ * notes of days without any) and writes it to `period.outputPath`, replacing
+ * any previous version of the report.
+ */
+export async function generateTimeReport(
+  period: ReportPeriod,
+  dailyNotes: DailyNoteRef[],
+  events: ActivityEvent[]
+): Promise<{ outputPath: string; projectCount: number }> {
+  const entries: JournalEntry[] = [];
+  const notes = new Map<string, string>();
+  const inPeriod = (day: string) => day >= period.firstDay && day <= period.lastDay;
+
+  for (const note of dailyNotes) {
+    if (inPeriod(note.date)) {
+      notes.set(note.date, note.slug);
+    }
+  }
+
+  const eventDays = new Set<string>();
+  for (const event of events) {
+    const when = new Date(event.timestamp);
+    const day = getDailyNoteSlug(when);
+    if (Number.isNaN(when.getTime()) || !inPeriod(day)) continue;
+    eventDays.add(day);
+    if (!event.projectSlug) continue; // quick log entries without a project
+
+    const activeMs = Number(event.details.activeMs);
+    entries.push({
+      day,
+      noteSlug: notes.get(day) ?? day,
+      minutes: when.getHours() * 60 + when.getMinutes(),
+      kind: event.kind,
+      slug: event.projectSlug,
+      activeMinutes: event.kind === 'CLOSE' && Number.isFinite(activeMs) ? Math.round(activeMs / 60000) : undefined
+    });
+  }
+
+  // Days from before the activity log: only their daily notes have the entries
+  for (const note of dailyNotes) {
+    if (!inPeriod(note.date) || eventDays.has(note.date)) continue;
+
+    let content: string;
+    try {
+      content = await fsp.readFile(note.filePath, 'utf8');
+    } catch {
+      continue;
+    }
+    entries.push(...parseJournalEntries(note, content));
+  }
+
+  const totals = summarize(entries);
+  const content = renderReport(period, totals, notes);
+
+  await fsp.mkdir(path.dirname(period.outputPath), { recursive: true });
+  await fsp.writeFile(period.outputPath, content, { encoding: 'utf8' });
+
+  return { outputPath: period.outputPath, projectCount: totals.length };
+}
+
+/* ---------- internals ---------- */
+
+function parseJournalEntries(note: DailyNoteRef, content: string): JournalEntry[] {
+  const result: JournalEntry[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const m = ENTRY_PATTERN.exec(line);
+    if (!m) continue;
+    const active = m[3] === 'CLOSE' ? ACTIVE_PATTERN.exec(m[5]) : null;
+    result.push({
+      day: note.date,
+      noteSlug: note.slug,
+      minutes: parseInt(m[1], 10) * 60 + parseInt(m[2], 10),
+      kind: m[3],
+      slug: m[4],
+      activeMinutes: active ? parseInt(active[1], 10) * 60 + parseInt(active[2], 10) : undefined
+    });
+  }
+  return result;
+}
+
+function summarize(entries: JournalEntry[]): ProjectTotals[] {
+  const bySlug = new Map<string, ProjectTotals>();
+  const byProjectDay = new Map<string, JournalEntry[]>();
+
+  for (const entry of entries) {
+    let totals = bySlug.get(entry.slug);
+    if (!totals) {
+      totals = {
+        slug: entry.slug,
+        sessions: 0,
+        activeMinutes: 0,
+        estimatedMinutes: 0,
+        commits: 0,
+        notes: new Map<string, string>()
+      };
+      bySlug.set(entry.slug, totals);
+    }
+
+    totals.notes.set(entry.day, entry.noteSlug);
+    if (entry.kind === 'OPEN') {
+      totals.sessions++;
+    } else if (entry.kind === 'COMMIT' || entry.kind === 'MERGE') {
+      totals.commits++;
+    }
+
+    const key = `${entry.slug}\u0000${entry.day}`;
+    const list = byProjectDay.get(key) || [];
+    list.push(entry);
+    byProjectDay.set(key, list);
+  }
+
+  for (const list of byProjectDay.values()) {
+    const totals = bySlug.get(list[0].slug) as ProjectTotals;
+    const closes = list.filter(e => e.kind === 'CLOSE');
+
+    if (closes.length > 0) {
+      for (const close of closes) {
+        totals.activeMinutes += close.activeMinutes ?? 0;
+      }
+    } else {
+      // No recorded session end (older notes): estimate from the span of that day's activity.
+      const times = list.map(e => e.minutes);
+      totals.estimatedMinutes += Math.max(...times) - Math.min(...times);
+    }
+  }
+
+  return Array.from(bySlug.values()).sort((a, b) => a.slug.localeCompare(b.slug));
+}
+
+function formatHours(totals: { activeMinutes: number; estimatedMinutes: number }): string {
+  const hours = ((totals.activeMinutes + totals.estimatedMinutes) / 60).toFixed(1);
+  return totals.estimatedMinutes > 0 ? `~${hours}` : hours;
+}
+
+function renderReport(period: ReportPeriod, totals: ProjectTotals[], notes: Map<string, string>): string {
+  const lines: string[] = [];
+  lines.push('---');
+  lines.push('type: time-report');
+  lines.push(`period: ${period.kind}`);
+  lines.push(...period.frontMatter);
+  lines.push(`start: ${period.firstDay}`);
+  lines.push(`end: ${period.lastDay}`);
+  lines.push(`generated: ${new Date().toISOString()}`);
+  lines.push('---', '');
+  lines.push(`# ${period.title}`, '');
+  lines.push(
+    '> Generated by Foam Central from the activity log. Re-running the report command replaces this file.',
+    ''
+  );
+
+  if (totals.length === 0) {
+    lines.push('_No project activity was logged in this period._', '');
+  } else {
+    lines.push('| Project | Sessions | Hours | Commits | Daily notes |');
+    lines.push('| --- | ---: | ---: | ---: | --- |');
+    for (const t of totals) {
+      // No aliases here: a "|" inside a table cell would split the cell.
+      const dayLinks = sortedLinks(t.notes, false).join(', ');
+      lines.push(
+        `| [[projects/${t.slug}/home]] | ${t.sessions} | ${formatHours(t)} | ${t.commits} | ${dayLinks} |`
+      );
+    }
+
+    const sum = totals.reduce(
+      (acc, t) => ({
+        sessions: acc.sessions + t.sessions,
+        activeMinutes: acc.activeMinutes + t.activeMinutes,
+        estimatedMinutes: acc.estimatedMinutes + t.estimatedMinutes,
+        commits: acc.commits + t.commits
+      }),
+      { sessions: 0, activeMinutes: 0, estimatedMinutes: 0, commits: 0 }
+    );
+
+    lines.push('');
+    lines.push(
+      `**Total:** ${sum.sessions} session(s), ${formatHours(sum)} h, ${sum.commits} commit(s)`,
+      ''
+    );
+    if (sum.estimatedMinutes > 0) {
+      lines.push(
+        '_Hours marked `~` include estimates for days without `[CLOSE]` entries ' +
+        '(first to last logged event of the day)._',
+        ''
+      );
+    }
+  }
+
+  if (notes.size > 0) {
+    lines.push('## Daily notes', '');
+    lines.push(...sortedLinks(notes, true).map(link => `- ${link}`), '');
+  }
+
+  return lines.join('\n');
+}
+
+function sortedLinks(notes: Map<string, string>, withDateAlias: boolean): string[] {
+  return Array.from(notes.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, slug]) => (withDateAlias && slug !== day ? `[[${slug}|${day}]]` : `[[${slug}]]`));
+}
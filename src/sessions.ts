@@ -0,0 +1,305 @@
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+/*
+ * Session tracking.
+ *
+ * Every window keeps its open project sessions in its own small JSON file under
+ * <globalStorage>/sessions/<windowId>.json and refreshes it with a heartbeat.
+ * When a window goes away (cleanly or not) its file is left behind; the next
+ * window that reconciles claims it, and the caller turns the finished sessions
+ * into CLOSE entries in the notes.
+ */
+
+export interface SessionRecord {
+  slug: string;
+  name: string;
+  projectPath: string;
+  homePath: string;
+  start: number;          // epoch ms
+  lastHeartbeat: number;  // epoch ms
+  activeMs: number;       // focused, non-idle time accumulated so far
+  activeSince?: number;   // set while the window is focused and in use
+  end?: number;           // set on a clean shutdown
+}
+
+interface WindowSessionsFile {
+  version: 1;
+  host: string;
+  pid: number;
+  sessions: SessionRecord[];
+}
+
+export const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+// A heartbeat gap longer than this (sleep, hibernate, debugger) is not work time.
+const MAX_HEARTBEAT_GAP_MS = 5 * 60 * 1000;
+
+// Sessions whose owner process still exists are only reclaimed after this long
+// (guards against PID reuse).
+const ORPHAN_AFTER_MS = 24 * 60 * 60 * 1000;
+
+let sessionsDir: string | undefined;
+let windowId: string | undefined;
+let working = false;
+let persistChain: Promise<void> = Promise.resolve();
+let closed = false;       // closeAllSessionsSync() wrote the final file
+const sessions = new Map<string, SessionRecord>();
+
+export function initSessionStore(storageDir: string, initiallyWorking: boolean): void {
+  sessionsDir = path.join(storageDir, 'sessions');
+  windowId = `${os.hostname()}-${process.pid}-${Date.now()}`;
+  working = initiallyWorking;
+  closed = false;
+  sessions.clear();
+}
+
+export function startSession(info: { slug: string; name: string; path: string; homePath: string }): void {
+  const now = Date.now();
+  sessions.set(info.slug, {
+    slug: info.slug,
+    name: info.name,
+    projectPath: info.path,
+    homePath: info.homePath,
+    start: now,
+    lastHeartbeat: now,
+    activeMs: 0,
+    activeSince: working ? now : undefined
+  });
+  void persist();
+}
+
+/**
+ * Ends a session owned by this window (e.g. its folder was removed from the
+ * workspace) and returns the finished record.
+ */
+export function endSession(slug: string): SessionRecord | undefined {
+  const record = sessions.get(slug);
+  if (!record) {
+    return undefined;
+  }
+
+  const now = Date.now();
+  foldActiveTime(record, now);
+  record.lastHeartbeat = now;
+  record.end = now;
+  sessions.delete(slug);
+  void persist();
+  return record;
+}
+
+/** Re-keys a running session after the project's slug changed (alias). */
+export function renameSession(oldSlug: string, info: { slug: string; name: string; homePath: string }): void {
+  const record = sessions.get(oldSlug);
+  if (!record) {
+    return;
+  }
+
+  sessions.delete(oldSlug);
+  record.slug = info.slug;
+  record.name = info.name;
+  record.homePath = info.homePath;
+  sessions.set(info.slug, record);
+  void persist();
+}
+
+/**
+ * Called whenever the window's focus/activity changes. Time only counts as
+ * work while the window is focused and has been interacted with recently.
+ */
+export function setWorking(isWorking: boolean): void {
+  if (isWorking === working) {
+    return;
+  }
+  working = isWorking;
+
+  const now = Date.now();
+  for (const record of sessions.values()) {
+    if (isWorking) {
+      record.activeSince = now;
+    } else {
+      foldActiveTime(record, now);
+      record.activeSince = undefined;
+    }
+  }
+  void persist();
+}
+
+export async function heartbeat(): Promise<void> {
+  const now = Date.now();
+  for (const record of sessions.values()) {
+    if (now - record.lastHeartbeat > MAX_HEARTBEAT_GAP_MS && record.activeSince !== undefined) {
+      // Machine was probably asleep: restart the active interval instead of counting the gap.
+      record.activeSince = now;
+    }
+    foldActiveTime(record, now);
+    record.lastHeartbeat = now;
+  }
+  await persist();
+}
+
+/**
+ * Marks every session of this window as ended. Synchronous on purpose: it runs
+ * from deactivate(), where VS Code may not wait for async work.
+ */
+export function closeAllSessionsSync(): void {
+  if (!sessionsDir || !windowId || sessions.size === 0) {
+    return;
+  }
+
+  const now = Date.now();
+  for (const record of sessions.values()) {
+    foldActiveTime(record, now);
+    record.lastHeartbeat = now;
+    record.end = now;
+  }
+
+  try {
+    fs.mkdirSync(sessionsDir, { recursive: true });
+    fs.writeFileSync(getOwnFilePath(), JSON.stringify(buildFile(), null, 2), 'utf8');
+  } catch {
+    // best effort at shutdown
+  }
+  // A write still queued must not replace (or, with no sessions left, delete) that file
+  closed = true;
+  sessions.clear();
+}
+
+/**
+ * Claims the session files of windows that are gone and returns their
+ * sessions, each with `end` filled in (clean close time or last heartbeat).
+ */
+export async function reconcileSessions(): Promise<SessionRecord[]> {
+  if (!sessionsDir || !windowId) {
+    return [];
+  }
+
+  let names: string[];
+  try {
+    names = await fsp.readdir(sessionsDir);
+  } catch {
+    return [];
+  }
+
+  const finished: SessionRecord[] = [];
+  const ownName = path.basename(getOwnFilePath());
+
+  for (const name of names) {
+    if (!name.endsWith('.json') || name === ownName) {
+      continue;
+    }
+
+    const filePath = path.join(sessionsDir, name);
+    let file: WindowSessionsFile;
+    try {
+      file = JSON.parse(await fsp.readFile(filePath, 'utf8'));
+    } catch {
+      continue;
+    }
+
+    if (!isAbandoned(file)) {
+      continue;
+    }
+
+    // Claim the file atomically so two windows never log the same CLOSE twice.
+    const claimedPath = `${filePath}.closing-${process.pid}`;
+    try {
+      await fsp.rename(filePath, claimedPath);
+    } catch {
+      continue; // someone else got there first
+    }
+
+    try {
+      const claimed: WindowSessionsFile = JSON.parse(await fsp.readFile(claimedPath, 'utf8'));
+      for (const record of claimed.sessions || []) {
+        const end = record.end ?? record.lastHeartbeat;
+        if (record.activeSince !== undefined) {
+          record.activeMs += Math.max(0, Math.min(end, record.lastHeartbeat) - record.activeSince);
+          record.activeSince = undefined;
+        }
+        record.end = end;
+        finished.push(record);
+      }
+    } finally {
+      await fsp.unlink(claimedPath).catch(() => undefined);
+    }
+  }
+
+  return finished.sort((a, b) => (a.end ?? 0) - (b.end ?? 0));
+}
+
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.max(0, Math.round(ms / 60000));
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return `${h}h ${m.toString().padStart(2, '0')}m`;
+}
+
+/* ---------- internals ---------- */
+
+function foldActiveTime(record: SessionRecord, now: number): void {
+  if (record.activeSince !== undefined) {
+    record.activeMs += Math.max(0, now - record.activeSince);
+    record.activeSince = now;
+  }
+}
+
+function isAbandoned(file: WindowSessionsFile): boolean {
+  const sessionsList = file.sessions || [];
+  if (sessionsList.length > 0 && sessionsList.every(s => s.end !== undefined)) {
+    return true;
+  }
+
+  const lastBeat = Math.max(0, ...sessionsList.map(s => s.lastHeartbeat));
+  if (file.host !== os.hostname()) {
+    // Global storage is per machine, but be safe with synced profiles.
+    return Date.now() - lastBeat > ORPHAN_AFTER_MS;
+  }
+
+  try {
+    process.kill(file.pid, 0);
+  } catch (err: any) {
+    if (err?.code === 'ESRCH') {
+      return true; // owning extension host is gone (crash / kill)
+    }
+  }
+  return Date.now() - lastBeat > ORPHAN_AFTER_MS;
+}
+
+function getOwnFilePath(): string {
+  return path.join(sessionsDir as string, `${windowId}.json`);
+}
+
+function buildFile(): WindowSessionsFile {
+  return {
+    version: 1,
+    host: os.hostname(),
+    pid: process.pid,
+    sessions: Array.from(sessions.values())
+  };
+}
+
+function persist(): Promise<void> {
+  // Serialize writes so a slow write never overwrites a newer one.
+  persistChain = persistChain.then(writeOwnFile);
+  return persistChain;
+}
+
+async function writeOwnFile(): Promise<void> {
+  if (!sessionsDir || !windowId || closed) {
+    return;
+  }
+
+  try {
+    await fsp.mkdir(sessionsDir, { recursive: true });
+    if (sessions.size === 0) {
+      await fsp.unlink(getOwnFilePath()).catch(() => undefined);
+      return;
+    }
+    await fsp.writeFile(getOwnFilePath(), JSON.stringify(buildFile(), null, 2), 'utf8');
+  } catch (err) {
+    console.error('Foam Central: failed to persist session state', err);
+  }
+}
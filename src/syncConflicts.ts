@@ -0,0 +1,130 @@
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { updateManagedBlock } from './managedBlock';
+import { GitRunner } from './vcsEvents';
+
+/*
+ * Conflicts of the notes auto-sync.
+ *
+ * Notes that Foam Central only appends to (daily notes, vcs.md, issue notes,
+ * index.md) and the activity event log are merged with git's built-in
+ * line-union driver, set up in a managed block of the notes folder's
+ * .gitattributes; the generated block of a merged index.md is regenerated
+ * after the pull. Whatever still conflicts after a pull is listed in the Sync
+ * Conflicts view and resolved there; the pull (rebase or merge) is then
+ * continued and the sync resumes.
+ */
+
+export type PullStrategy = 'ff-only' | 'rebase' | 'merge';
+
+/** ours: this machine's version, theirs: the pulled one, both: ours then theirs. */
+export type ConflictChoice = 'ours' | 'theirs' | 'both';
+
+/** The pull that stopped on conflicts, if it is still in progress. */
+export type PendingPull = 'rebase' | 'merge' | undefined;
+
+const ATTRIBUTES_BEGIN = '# >>> foam-central: line-union merge for append-only notes';
+const ATTRIBUTES_END = '# <<< foam-central';
+
+/**
+ * The .gitattributes lines for the append-only notes, relative to the notes
+ * folder. Weekly todo lists are edited in place, so they keep the normal merge.
+ */
+export function getUnionMergeAttributes(dailyNoteGlob: string, projectsFolderName: string): string[] {
+  const projects = projectsFolderName.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+  return [
+    `${dailyNoteGlob} merge=union`,
+    `${projects}/*/vcs.md merge=union`,
+    `${projects}/*/issues/*.md merge=union`,
+    '**/index.md merge=union',
+    // One JSON event per line, appended by every machine
+    '.foam-central/events/*.jsonl merge=union',
+    '**/todo.md !merge'
+  ];
+}
+
+/** `existing` .gitattributes with the managed block added or replaced; other lines are kept. */
+export function updateGitAttributes(existing: string, lines: string[]): string {
+  return updateManagedBlock(existing, ATTRIBUTES_BEGIN, ATTRIBUTES_END, lines);
+}
+
+/** Files with unresolved conflicts, relative to the repository root. */
+export async function listConflictedFiles(git: GitRunner): Promise<string[]> {
+  const out = await git(['diff', '--name-only', '--diff-filter=U', '-z']);
+  return Array.from(new Set(out.split('\0').filter(Boolean)));
+}
+
+export async function getPendingPull(git: GitRunner, repoRoot: string): Promise<PendingPull> {
+  const exists = async (gitPath: string): Promise<boolean> => {
+    const relative = (await git(['rev-parse', '--git-path', gitPath])).trim();
+    try {
+      await fsp.access(path.resolve(repoRoot, relative));
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if ((await exists('rebase-merge')) || (await exists('rebase-apply'))) {
+    return 'rebase';
+  }
+  return (await exists('MERGE_HEAD')) ? 'merge' : undefined;
+}
+
+/**
+ * `content` with every conflict block replaced by the chosen side, or
+ * undefined if it has no conflict markers. During a rebase the first side of
+ * a block is the pulled history, so the sides are swapped.
+ */
+export function resolveConflictMarkers(content: string, choice: ConflictChoice, pull: PendingPull): string | undefined {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+  const result: string[] = [];
+  let first: string[] = [];
+  let second: string[] = [];
+  let state: 'outside' | 'first' | 'base' | 'second' = 'outside';
+  let found = false;
+
+  for (const line of lines) {
+    if (state === 'outside' && line.startsWith('<<<<<<<')) {
+      state = 'first';
+      first = [];
+      second = [];
+      found = true;
+    } else if (state === 'first' && line.startsWith('|||||||')) {
+      state = 'base';     // diff3 style: the common ancestor is dropped
+    } else if ((state === 'first' || state === 'base') && line.startsWith('=======')) {
+      state = 'second';
+    } else if (state === 'second' && line.startsWith('>>>>>>>')) {
+      const [ours, theirs] = pull === 'rebase' ? [second, first] : [first, second];
+      result.push(...(choice === 'ours' ? ours : choice === 'theirs' ? theirs : [...ours, ...theirs]));
+      state = 'outside';
+    } else if (state === 'first') {
+      first.push(line);
+    } else if (state === 'second') {
+      second.push(line);
+    } else if (state === 'outside') {
+      result.push(line);
+    }
+  }
+
+  return found && state === 'outside' ? result.join(eol) : undefined;
+}
+
+/** The `git checkout` flag that picks `choice` for a file without markers (e.g. binary). */
+export function getCheckoutFlag(choice: Exclude<ConflictChoice, 'both'>, pull: PendingPull): string {
+  const local = choice === 'ours';
+  return local === (pull !== 'rebase') ? '--ours' : '--theirs';
+}
+
+/**
+ * Finishes the stopped pull once its conflicts are resolved. A rebase may stop
+ * again on a later commit; the caller checks for new conflicts.
+ */
+export async function continuePendingPull(git: GitRunner, pull: PendingPull): Promise<void> {
+  if (pull === 'rebase') {
+    await git(['-c', 'core.editor=true', 'rebase', '--continue']);
+  } else if (pull === 'merge') {
+    await git(['commit', '--no-edit']);
+  }
+}
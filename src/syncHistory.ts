@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/*
+ * History of notes auto-sync attempts, kept in the extension's global state
+ * (shared by all windows) and shown in the "Foam Central Sync History"
+ * explorer view, newest first.
+ */
+
+export type SyncOutcome = 'pushed' | 'committed' | 'no-changes' | 'paused' | 'skipped' | 'failed';
+
+export interface SyncAttempt {
+  time: string;                 // ISO timestamp of the start
+  reason: string;               // save-threshold, timer, manual
+  outcome: SyncOutcome;
+  commit?: string;              // hash of the sync commit
+  files: string[];              // changed files, relative to the notes repo
+  push: 'ok' | 'failed' | 'skipped';
+  error?: string;
+}
+
+type SyncHistoryNode =
+  | { type: 'attempt'; attempt: SyncAttempt }
+  | { type: 'file'; attempt: SyncAttempt; file: string }
+  | { type: 'error'; attempt: SyncAttempt };
+
+const STATE_KEY = 'foamCentral.syncHistory';
+const MAX_ATTEMPTS = 100;
+
+const OUTCOME_ICONS: Record<SyncOutcome, string> = {
+  pushed: 'cloud-upload',
+  committed: 'git-commit',
+  'no-changes': 'check',
+  paused: 'debug-pause',
+  skipped: 'debug-step-over',
+  failed: 'error'
+};
+
+export class SyncHistory {
+  constructor(private readonly state: vscode.Memento) {}
+
+  list(): SyncAttempt[] {
+    const stored = this.state.get<SyncAttempt[]>(STATE_KEY, []);
+    return Array.isArray(stored) ? stored : [];
+  }
+
+  async add(attempt: SyncAttempt): Promise<void> {
+    await this.state.update(STATE_KEY, [attempt, ...this.list()].slice(0, MAX_ATTEMPTS));
+  }
+
+  async clear(): Promise<void> {
+    await this.state.update(STATE_KEY, []);
+  }
+}
+
+export class SyncHistoryTreeProvider implements vscode.TreeDataProvider<SyncHistoryNode>, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<SyncHistoryNode | undefined>();
+
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private readonly history: SyncHistory, private readonly getRepoRoot: () => string | undefined) {}
+
+  refresh(): void {
+    this.changeEmitter.fire(undefined);
+  }
+
+  getTreeItem(node: SyncHistoryNode): vscode.TreeItem {
+    if (node.type === 'file') {
+      const item = new vscode.TreeItem(node.file, vscode.TreeItemCollapsibleState.None);
+      item.iconPath = new vscode.ThemeIcon('file');
+      const root = this.getRepoRoot();
+      if (root) {
+        const uri = vscode.Uri.file(path.join(root, ...node.file.split('/')));
+        item.resourceUri = uri;
+        item.command = { command: 'vscode.open', title: 'Open Note', arguments: [uri] };
+      }
+      return item;
+    }
+
+    if (node.type === 'error') {
+      const item = new vscode.TreeItem(firstLine(node.attempt.error ?? ''), vscode.TreeItemCollapsibleState.None);
+      item.iconPath = new vscode.ThemeIcon('warning');
+      item.tooltip = node.attempt.error;
+      return item;
+    }
+
+    const attempt = node.attempt;
+    const hasChildren = attempt.files.length > 0 || !!attempt.error;
+    const item = new vscode.TreeItem(
+      `${formatAttemptTime(attempt.time)} ${attempt.reason}: ${attempt.outcome}`,
+      hasChildren ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+    );
+    item.iconPath = new vscode.ThemeIcon(OUTCOME_ICONS[attempt.outcome] ?? 'circle-outline');
+    item.description = [
+      attempt.files.length > 0 ? `${attempt.files.length} file(s)` : '',
+      attempt.commit ? attempt.commit.slice(0, 7) : '',
+      attempt.push !== 'skipped' ? `push ${attempt.push}` : ''
+    ]
+      .filter(Boolean)
+      .join(' · ');
+    item.tooltip = [
+      new Date(attempt.time).toLocaleString(),
+      `Reason: ${attempt.reason}`,
+      `Outcome: ${attempt.outcome}`,
+      attempt.commit ? `Commit: ${attempt.commit}` : '',
+      `Push: ${attempt.push}`,
+      attempt.error ? `Error: ${attempt.error}` : ''
+    ]
+      .filter(Boolean)
+      .join('\n');
+    return item;
+  }
+
+  getChildren(node?: SyncHistoryNode): SyncHistoryNode[] {
+    if (!node) {
+      return this.history.list().map(attempt => ({ type: 'attempt', attempt }));
+    }
+    if (node.type !== 'attempt') {
+      return [];
+    }
+    const children: SyncHistoryNode[] = [];
+    if (node.attempt.error) {
+      children.push({ type: 'error', attempt: node.attempt });
+    }
+    children.push(...node.attempt.files.map(file => ({ type: 'file' as const, attempt: node.attempt, file })));
+    return children;
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+/* ---------- internals ---------- */
+
+function formatAttemptTime(iso: string): string {
+  const date = new Date(iso);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return sameDay ? time : `${date.toLocaleDateString()} ${time}`;
+}
+
+function firstLine(text: string): string {
+  return text.split(/\r?\n/).find(line => line.trim() !== '')?.trim() ?? '';
+}
@@ -0,0 +1,319 @@
+import * as vscode from 'vscode';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { getIsoWeekInfo } from './dates';
+import { JournalLayout, findDailyNotes, parseIsoDay, readFrontMatter } from './journalLayout';
+import { matchTaskLine } from './tasks';
+import { withNotesLock } from './writeCoordinator';
+
+/*
+ * "Foam Central Tasks" explorer view: every open "- [ ]" item in the notes,
+ * grouped by project and week. The index is kept per file and updated from a
+ * file watcher, so a change only re-reads the file that changed.
+ */
+
+export interface TaskIndexOptions {
+  notesFolder: string;
+  projectsFolderName: string;
+  getLayout: () => JournalLayout;
+  listMarkdownFiles: (root: string) => Promise<string[]>;
+  isIgnored: (filePath: string) => boolean;
+}
+
+export interface IndexedTask {
+  filePath: string;
+  line: number;
+  text: string;
+  project: string | undefined;
+  week: string | undefined;     // e.g. 2026-W42
+  due: string | undefined;      // YYYY-MM-DD
+}
+
+type TaskTreeNode =
+  | { type: 'project'; project: string | undefined }
+  | { type: 'week'; project: string | undefined; week: string | undefined }
+  | { type: 'task'; task: IndexedTask };
+
+const NO_PROJECT_LABEL = '(no project)';
+const NO_WEEK_LABEL = '(no week)';
+
+const DUE_PATTERN = /(?:📅\s*|\bdue:\s*)(\d{4}-\d{2}-\d{2})/u;
+const PROJECT_TAG_PATTERN = /(?:^|\s)#project\/([\w.-]+)/;
+const TAG_PATTERN = /(?:^|\s)#([\w.-]+)/g;
+
+export class TaskTreeProvider implements vscode.TreeDataProvider<TaskTreeNode>, vscode.Disposable {
+  private readonly index = new Map<string, IndexedTask[]>();
+  private readonly changeEmitter = new vscode.EventEmitter<TaskTreeNode | undefined>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private refreshTimer: NodeJS.Timeout | undefined;
+  private knownProjects = new Set<string>();
+
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private readonly options: TaskIndexOptions) {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(options.notesFolder), '**/*.md')
+    );
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(uri => void this.updateFile(uri.fsPath)),
+      watcher.onDidChange(uri => void this.updateFile(uri.fsPath)),
+      watcher.onDidDelete(uri => {
+        if (this.index.delete(uri.fsPath)) {
+          this.scheduleRefresh();
+        }
+      }),
+      this.changeEmitter
+    );
+  }
+
+  /** Full scan of the notes folder. */
+  async rebuild(): Promise<void> {
+    await this.loadKnownProjects();
+    this.index.clear();
+    for (const file of await this.options.listMarkdownFiles(this.options.notesFolder)) {
+      await this.indexFile(file);
+    }
+    this.changeEmitter.fire(undefined);
+  }
+
+  getTasks(): IndexedTask[] {
+    return Array.from(this.index.values()).flat();
+  }
+
+  getTreeItem(node: TaskTreeNode): vscode.TreeItem {
+    if (node.type === 'project') {
+      const item = new vscode.TreeItem(node.project ?? NO_PROJECT_LABEL, vscode.TreeItemCollapsibleState.Expanded);
+      item.iconPath = new vscode.ThemeIcon('project');
+      item.description = String(this.getTasks().filter(t => t.project === node.project).length);
+      return item;
+    }
+
+    if (node.type === 'week') {
+      const item = new vscode.TreeItem(node.week ?? NO_WEEK_LABEL, vscode.TreeItemCollapsibleState.Expanded);
+      item.iconPath = new vscode.ThemeIcon('calendar');
+      return item;
+    }
+
+    const task = node.task;
+    const item = new vscode.TreeItem(task.text, vscode.TreeItemCollapsibleState.None);
+    item.iconPath = new vscode.ThemeIcon('circle-large-outline');
+    item.contextValue = 'foamCentralTask';
+    item.description = [task.due ? `due ${task.due}` : '', path.basename(task.filePath, '.md')]
+      .filter(Boolean)
+      .join(' · ');
+    item.tooltip = `${task.text}\n${path.relative(this.options.notesFolder, task.filePath)}:${task.line + 1}`;
+    item.command = {
+      command: 'foamCentral.openTask',
+      title: 'Open Task',
+      arguments: [node]
+    };
+    return item;
+  }
+
+  getChildren(node?: TaskTreeNode): TaskTreeNode[] {
+    const tasks = this.getTasks();
+
+    if (!node) {
+      const projectsWithTasks = Array.from(new Set(tasks.map(t => t.project)));
+      return projectsWithTasks
+        .sort(compareOptional)
+        .map(project => ({ type: 'project', project }));
+    }
+
+    if (node.type === 'project') {
+      const weeks = Array.from(new Set(tasks.filter(t => t.project === node.project).map(t => t.week)));
+      // Most recent week first, undated last
+      return weeks
+        .sort((a, b) => (a === undefined || b === undefined ? compareOptional(a, b) : b.localeCompare(a)))
+        .map(week => ({ type: 'week', project: node.project, week }));
+    }
+
+    if (node.type === 'week') {
+      return tasks
+        .filter(t => t.project === node.project && t.week === node.week)
+        .sort((a, b) => compareOptional(a.due, b.due) || a.filePath.localeCompare(b.filePath) || a.line - b.line)
+        .map(task => ({ type: 'task', task }));
+    }
+
+    return [];
+  }
+
+  dispose(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    for (const d of this.disposables) {
+      d.dispose();
+    }
+  }
+
+  private async updateFile(filePath: string): Promise<void> {
+    if (this.options.isIgnored(filePath)) {
+      return;
+    }
+    await this.loadKnownProjects();
+    await this.indexFile(filePath);
+    this.scheduleRefresh();
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.refreshTimer = setTimeout(() => this.changeEmitter.fire(undefined), 300);
+  }
+
+  private async loadKnownProjects(): Promise<void> {
+    try {
+      const entries = await fsp.readdir(path.join(this.options.notesFolder, this.options.projectsFolderName), {
+        withFileTypes: true
+      });
+      this.knownProjects = new Set(entries.filter(e => e.isDirectory()).map(e => e.name));
+    } catch {
+      this.knownProjects = new Set();
+    }
+  }
+
+  private async indexFile(filePath: string): Promise<void> {
+    let content: string;
+    try {
+      content = await fsp.readFile(filePath, 'utf8');
+    } catch {
+      this.index.delete(filePath);
+      return;
+    }
+
+    const lines = content.split(/\r?\n/);
+    if (!lines.some(l => matchTaskLine(l))) {
+      this.index.delete(filePath);
+      return;
+    }
+
+    const fileProject = this.getProjectFromPath(filePath);
+    const fileWeek = await this.getWeekForFile(filePath);
+    const tasks: IndexedTask[] = [];
+
+    lines.forEach((line, i) => {
+      const task = matchTaskLine(line);
+      if (!task || task.done) return;
+
+      const due = DUE_PATTERN.exec(task.text)?.[1];
+      tasks.push({
+        filePath,
+        line: i,
+        text: task.text.trim(),
+        project: fileProject ?? this.getProjectFromTags(task.text),
+        week: fileWeek ?? (due ? toWeekLabel(parseIsoDay(due)) : undefined),
+        due
+      });
+    });
+
+    this.index.set(filePath, tasks);
+  }
+
+  private getProjectFromPath(filePath: string): string | undefined {
+    const relative = path.relative(this.options.notesFolder, filePath).split(path.sep);
+    if (relative.length > 2 && relative[0] === this.options.projectsFolderName) {
+      return relative[1];
+    }
+    return undefined;
+  }
+
+  private getProjectFromTags(text: string): string | undefined {
+    const explicit = PROJECT_TAG_PATTERN.exec(text);
+    if (explicit) {
+      return explicit[1];
+    }
+    for (const m of text.matchAll(TAG_PATTERN)) {
+      if (this.knownProjects.has(m[1])) {
+        return m[1];
+      }
+    }
+    return undefined;
+  }
+
+  private async getWeekForFile(filePath: string): Promise<string | undefined> {
+    const [dailyNote] = await findDailyNotes(this.options.getLayout(), this.options.notesFolder, [filePath]);
+    if (dailyNote) {
+      return toWeekLabel(parseIsoDay(dailyNote.date));
+    }
+
+    const fm = await readFrontMatter(filePath);
+    if (fm.type === 'weekly-todo' || (fm.week && fm.start)) {
+      if (/^\d{4}-\d{2}-\d{2}$/.test(fm.start || '')) {
+        return toWeekLabel(parseIsoDay(fm.start));
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Marks the task as done in its source file. The line is re-checked first; if
+ * the file changed since it was indexed, the task is looked up by its text.
+ */
+export function toggleTaskDone(task: IndexedTask): Promise<boolean> {
+  return withNotesLock('toggle task', () => markTaskDone(task));
+}
+
+async function markTaskDone(task: IndexedTask): Promise<boolean> {
+  const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(task.filePath));
+
+  let lineNo = -1;
+  const isSameTask = (i: number) => {
+    const m = matchTaskLine(doc.lineAt(i).text);
+    return !!m && !m.done && m.text.trim() === task.text;
+  };
+  if (task.line < doc.lineCount && isSameTask(task.line)) {
+    lineNo = task.line;
+  } else {
+    for (let i = 0; i < doc.lineCount; i++) {
+      if (isSameTask(i)) {
+        lineNo = i;
+        break;
+      }
+    }
+  }
+  if (lineNo < 0) {
+    return false;
+  }
+
+  const line = doc.lineAt(lineNo);
+  const checkbox = line.text.indexOf('[ ]');
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(
+    doc.uri,
+    new vscode.Range(lineNo, checkbox, lineNo, checkbox + 3),
+    '[x]'
+  );
+  if (!(await vscode.workspace.applyEdit(edit))) {
+    return false;
+  }
+  await doc.save();
+  return true;
+}
+
+export async function openTask(task: IndexedTask): Promise<void> {
+  const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(task.filePath));
+  const position = new vscode.Position(Math.min(task.line, doc.lineCount - 1), 0);
+  await vscode.window.showTextDocument(doc, { selection: new vscode.Range(position, position), preview: true });
+}
+
+export function getTaskFromNode(node: unknown): IndexedTask | undefined {
+  const n = node as TaskTreeNode | undefined;
+  return n && n.type === 'task' ? n.task : undefined;
+}
+
+function toWeekLabel(date: Date): string {
+  const info = getIsoWeekInfo(date);
+  return `${info.year}-W${info.week.toString().padStart(2, '0')}`;
+}
+
+// Sorts undefined last
+function compareOptional(a: string | undefined, b: string | undefined): number {
+  if (a === b) return 0;
+  if (a === undefined) return 1;
+  if (b === undefined) return -1;
+  return a.localeCompare(b);
+}
@@ -0,0 +1,172 @@
+/*
+ * Markdown task helpers ("- [ ] ..." checkboxes), used by the weekly todo
+ * rollover and the task view.
+ */
+
+export interface TaskBlock {
+  start: number;      // index of the task line
+  end: number;        // exclusive; includes nested children
+  indent: number;
+  done: boolean;
+  text: string;       // task text without bullet and checkbox
+  lines: string[];    // the task line and its children
+}
+
+const TASK_LINE = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/;
+const CARRIED_MARKER = /\s*\(carried: (\d+)\)/;
+
+export function matchTaskLine(line: string): { indent: number; done: boolean; text: string } | undefined {
+  const m = TASK_LINE.exec(line);
+  if (!m) {
+    return undefined;
+  }
+  return { indent: indentWidth(m[1]), done: m[2] !== ' ', text: m[3] };
+}
+
+/**
+ * Top-level tasks of `lines` with their nested children (any following lines
+ * indented deeper than the task, blank lines in between included).
+ */
+export function parseTaskBlocks(lines: string[], from = 0, to = lines.length): TaskBlock[] {
+  const blocks: TaskBlock[] = [];
+  let i = from;
+
+  while (i < to) {
+    const task = matchTaskLine(lines[i]);
+    if (!task) {
+      i++;
+      continue;
+    }
+
+    let end = i + 1;
+    let lastContent = i;
+    while (end < to) {
+      const line = lines[end];
+      if (line.trim() === '') {
+        end++;
+        continue;
+      }
+      if (indentWidth(/^\s*/.exec(line)![0]) <= task.indent) {
+        break;
+      }
+      lastContent = end;
+      end++;
+    }
+    end = lastContent + 1; // trailing blank lines are not part of the task
+
+    blocks.push({
+      start: i,
+      end,
+      indent: task.indent,
+      done: task.done,
+      text: task.text,
+      lines: lines.slice(i, end)
+    });
+    i = end;
+  }
+
+  return blocks;
+}
+
+/**
+ * True if the task and all its subtasks are done. A done task with open
+ * subtasks stays with them: it is carried over, not archived.
+ */
+export function isTaskBlockComplete(block: TaskBlock): boolean {
+  return block.done && block.lines.slice(1).every(line => matchTaskLine(line)?.done !== false);
+}
+
+/** Adds `(carried: 1)` to a task line, or increments an existing marker. */
+export function bumpCarriedMarker(taskLine: string): string {
+  const m = CARRIED_MARKER.exec(taskLine);
+  if (m) {
+    return taskLine.replace(CARRIED_MARKER, ` (carried: ${parseInt(m[1], 10) + 1})`);
+  }
+  return `${taskLine.replace(/\s+$/, '')} (carried: 1)`;
+}
+
+/**
+ * The lines to write for a task carried into a new week: un-indented, with
+ * its children, the carried marker bumped and an optional source link.
+ */
+export function prepareCarriedTask(block: TaskBlock, sourceLink?: string): string[] {
+  const lines = block.lines.map(l => l.slice(Math.min(block.indent, indentWidth(/^\s*/.exec(l)![0]))));
+  let first = bumpCarriedMarker(lines[0]);
+  if (sourceLink && !first.includes(sourceLink)) {
+    first = first.replace(CARRIED_MARKER, m => ` — from ${sourceLink}${m}`);
+  }
+  lines[0] = first;
+  return lines;
+}
+
+/** Task text without checkbox, carried marker and extra spaces, for de-duplication. */
+export function normalizeTaskText(text: string): string {
+  return text.replace(CARRIED_MARKER, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Finds the line range of a `## <title>` section (heading line included),
+ * or undefined if there is none.
+ */
+export function findSectionRange(lines: string[], title: string): { start: number; end: number } | undefined {
+  const headingPattern = new RegExp(`^##\\s+${title.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`, 'i');
+  const start = lines.findIndex(l => headingPattern.test(l));
+  if (start < 0) {
+    return undefined;
+  }
+
+  let end = start + 1;
+  while (end < lines.length && !/^#{1,2}\s/.test(lines[end])) {
+    end++;
+  }
+  return { start, end };
+}
+
+/**
+ * Moves completed top-level tasks (with their children, all done) into a
+ * `## Done` section at the end of the note. Returns the new content and how many tasks
+ * were moved.
+ */
+export function archiveCompletedTasks(content: string): { content: string; archived: number } {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+
+  const doneRange = findSectionRange(lines, 'Done');
+  const blocks = parseTaskBlocks(lines).filter(
+    b => isTaskBlockComplete(b) && !(doneRange && b.start >= doneRange.start && b.start < doneRange.end)
+  );
+  if (blocks.length === 0) {
+    return { content, archived: 0 };
+  }
+
+  const moved = blocks.flatMap(b => b.lines.map(l => l.slice(Math.min(b.indent, indentWidth(/^\s*/.exec(l)![0])))));
+  const remove = new Set<number>();
+  for (const b of blocks) {
+    for (let i = b.start; i < b.end; i++) {
+      remove.add(i);
+    }
+  }
+
+  const kept = lines.filter((_l, i) => !remove.has(i));
+  const range = findSectionRange(kept, 'Done');
+
+  if (range) {
+    // Append after the last non-blank line of the existing section
+    let insertAt = range.end;
+    while (insertAt > range.start + 1 && kept[insertAt - 1].trim() === '') {
+      insertAt--;
+    }
+    kept.splice(insertAt, 0, ...moved);
+  } else {
+    while (kept.length > 0 && kept[kept.length - 1].trim() === '') {
+      kept.pop();
+    }
+    kept.push('', '## Done', '', ...moved, '');
+  }
+
+  return { content: kept.join(eol), archived: blocks.length };
+}
+
+function indentWidth(whitespace: string): number {
+  return whitespace.replace(/\t/g, '    ').length;
+}
@@ -0,0 +1,54 @@
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+
+/*
+ * Note templates.
+ *
+ * Templates are plain Markdown files in the templates folder
+ * (foamCentral.templatesFolder, relative to the notes root unless absolute):
+ *
+ *   daily-note.md, weekly-todo.md, project-home.md, project-vcs.md,
+ *   project-issue.md
+ *
+ * Placeholders look like {{date}} or {{project.slug}}. Unknown placeholders are
+ * left untouched so a typo is visible in the generated note.
+ */
+
+export type TemplateName = 'daily-note' | 'weekly-todo' | 'project-home' | 'project-vcs' | 'project-issue';
+
+export type TemplateVars = Record<string, string>;
+
+export const DEFAULT_TEMPLATES_FOLDER = '.foam-central/templates';
+
+export function resolveTemplatesDir(notesFolder: string, configured: string | undefined): string {
+  const folder = configured && configured.trim().length > 0 ? configured.trim() : DEFAULT_TEMPLATES_FOLDER;
+  return path.isAbsolute(folder) ? folder : path.join(notesFolder, folder);
+}
+
+/** Returns the template's text, or undefined if the user has not provided one. */
+export async function loadTemplate(templatesDir: string, name: TemplateName): Promise<string | undefined> {
+  try {
+    return await fsp.readFile(path.join(templatesDir, `${name}.md`), 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+export function applyTemplate(template: string, vars: TemplateVars): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(vars, key) ? vars[key] : match
+  );
+}
+
+/**
+ * Renders the user's template if there is one, otherwise the built-in layout.
+ */
+export async function renderNoteTemplate(
+  templatesDir: string,
+  name: TemplateName,
+  vars: TemplateVars,
+  builtIn: () => string
+): Promise<string> {
+  const template = await loadTemplate(templatesDir, name);
+  return template === undefined ? builtIn() : applyTemplate(template, vars);
+}
@@ -0,0 +1,94 @@
+import { formatTime, getDailyNoteSlug } from './dates';
+import { CommitInfo, GitRunner, TextFormatter, readCommits, shortHash } from './vcsEvents';
+
+/*
+ * Backfilling vcs.md (and optionally the daily notes) from `git log`, for
+ * history from before the project was onboarded or commits made outside
+ * VS Code. Commits are keyed by their short hash, so running it again only
+ * adds what is still missing.
+ */
+
+export type BackfillRange =
+  | { kind: 'since-last' }
+  | { kind: 'since-date'; date: string }    // YYYY-MM-DD
+  | { kind: 'all' };
+
+// `3f2c9d1` anywhere in a note (Commit: lines, pull lists, daily note lines)
+const HASH_PATTERN = /`([0-9a-f]{7,40})`|\(([0-9a-f]{7}),/g;
+
+/** Short hashes of the commits a note already mentions. */
+export function collectRecordedHashes(content: string): Set<string> {
+  const result = new Set<string>();
+  for (const m of content.matchAll(HASH_PATTERN)) {
+    result.add((m[1] ?? m[2]).slice(0, 7));
+  }
+  return result;
+}
+
+/** The newest commit of HEAD's history that is already recorded. */
+export async function findLastRecordedCommit(git: GitRunner, recorded: Set<string>): Promise<string | undefined> {
+  const out = await git(['rev-list', 'HEAD']);
+  return out.split(/\s+/).find(hash => hash && recorded.has(shortHash(hash)));
+}
+
+/**
+ * Commits of HEAD's history in `range` that are not recorded yet, oldest
+ * first. `since-last` with nothing recorded covers the whole history.
+ */
+export async function listMissingCommits(
+  git: GitRunner,
+  range: BackfillRange,
+  recorded: Set<string>
+): Promise<CommitInfo[]> {
+  const args = ['--reverse', '--date-order'];
+
+  if (range.kind === 'since-date') {
+    args.push(`--since=${range.date}T00:00:00`, 'HEAD');
+  } else if (range.kind === 'since-last') {
+    const last = await findLastRecordedCommit(git, recorded);
+    args.push(last ? `${last}..HEAD` : 'HEAD');
+  } else {
+    args.push('HEAD');
+  }
+
+  const commits = await readCommits(git, args);
+  return commits.filter(c => !recorded.has(shortHash(c.hash)));
+}
+
+/** e.g. `- 16:20 [COMMIT] [[projects/x/home]] "Fix parser" (3f2c9d1, from history)` */
+export function formatHistoricalDailyLine(
+  commit: CommitInfo,
+  projectRef: string,
+  formatText: TextFormatter = text => text
+): string {
+  const when = new Date(commit.date);
+  const kind = commit.parents.length > 1 ? 'MERGE' : 'COMMIT';
+  return (
+    `- ${formatTime(when)} [${kind}] ${projectRef} "${formatText(commit.subject)}" ` +
+    `(${shortHash(commit.hash)}, from history)`
+  );
+}
+
+/** The vcs.md entry for a backfilled commit, dated with the author date. */
+export function formatHistoricalVcsEntry(
+  commit: CommitInfo,
+  dailySlug: string | undefined,
+  formatText: TextFormatter = text => text
+): string[] {
+  const when = new Date(commit.date);
+  const kind = commit.parents.length > 1 ? 'MERGE' : 'COMMIT';
+  const lines = [
+    `## ${getDailyNoteSlug(when)} ${formatTime(when)} [${kind}] (history)`,
+    '',
+    `- Commit: \`${shortHash(commit.hash)}\``,
+    `- Message: ${formatText(commit.subject)}`,
+    `- Author: ${commit.author}`
+  ];
+  if (kind === 'MERGE') {
+    lines.push(`- Parents: ${commit.parents.map(p => `\`${shortHash(p)}\``).join(', ')}`);
+  }
+  if (dailySlug) {
+    lines.push(`- Journal: [[${dailySlug}]]`);
+  }
+  return lines;
+}
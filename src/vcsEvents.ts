@@ -0,0 +1,387 @@
+/*
+ * VCS change detection.
+ *
+ * The Git extension only tells us that a repository's state changed. We keep a
+ * snapshot of the repository (HEAD, branch, upstream counts, tags, stash) and
+ * diff the previous snapshot against the new one with git itself, so several
+ * commits between two state events are all logged, and pulls, pushes,
+ * checkouts, merges, rebases / amends, tags and stashes are told apart.
+ */
+
+export type VcsEventKind =
+  | 'COMMIT'
+  | 'PULL'
+  | 'MERGE'
+  | 'CHECKOUT'
+  | 'REWRITE'
+  | 'TAG'
+  | 'PUSH'
+  | 'STASH';
+
+export interface RepoSnapshot {
+  branch: string | undefined;     // undefined when detached
+  commit: string | undefined;
+  upstream: string | undefined;   // e.g. origin/main
+  ahead: number;
+  behind: number;
+  upstreamCommit: string | undefined;  // where the upstream's remote-tracking ref points
+  tags: Map<string, string>;      // tag name -> object id
+  stash: string | undefined;      // refs/stash object id
+  refsStamp: string | undefined;  // modification times of the ref files tags and stash were read from
+}
+
+export interface CommitInfo {
+  hash: string;
+  parents: string[];
+  author: string;
+  date: string;                   // ISO 8601
+  subject: string;
+}
+
+export interface VcsChange {
+  kind: VcsEventKind;
+  branch: string;                 // branch name, or "(detached)"
+  commits: CommitInfo[];          // COMMIT / MERGE: the commit; PULL: all pulled commits; REWRITE: the new ones
+  from?: string;                  // CHECKOUT: previous branch; REWRITE: previous HEAD
+  to?: string;                    // CHECKOUT: new branch; REWRITE: new HEAD
+  tag?: string;                   // TAG
+  count?: number;                 // PUSH: commits pushed
+  message?: string;               // STASH: the stash message
+  snapshot: RepoSnapshot;         // the state after the change
+}
+
+/** Runs git in the repository and returns stdout; rejects on a non-zero exit. */
+export type GitRunner = (args: string[]) => Promise<string>;
+
+/** Renders commit messages as Markdown, e.g. with issue references linked. */
+export type TextFormatter = (text: string) => string;
+
+const asIs: TextFormatter = text => text;
+
+const FIELD_SEP = '\x1f';
+const RECORD_SEP = '\x1e';
+const LOG_FORMAT = ['%H', '%P', '%an', '%aI', '%s'].join('%x1f') + '%x1e';
+
+/** Whether HEAD, the branch or its upstream counts differ between two snapshots. */
+export function headChanged(prev: RepoSnapshot, next: Omit<RepoSnapshot, RefsField>): boolean {
+  return (
+    prev.branch !== next.branch ||
+    prev.commit !== next.commit ||
+    prev.upstream !== next.upstream ||
+    prev.ahead !== next.ahead ||
+    prev.behind !== next.behind
+  );
+}
+
+/** The snapshot fields read with `readRefs`. */
+export type RefsField = 'upstreamCommit' | 'tags' | 'stash' | 'refsStamp';
+
+/**
+ * Tags, stash and the upstream's remote-tracking ref (e.g. origin/main), which
+ * the Git extension's HEAD state does not cover.
+ */
+export async function readRefs(
+  git: GitRunner,
+  upstream: string | undefined
+): Promise<Pick<RepoSnapshot, 'upstreamCommit' | 'tags' | 'stash'>> {
+  const upstreamRef = upstream ? `refs/remotes/${upstream}` : undefined;
+  const out = await git([
+    'for-each-ref',
+    '--format=%(refname) %(objectname)',
+    'refs/tags',
+    'refs/stash',
+    ...(upstreamRef ? [upstreamRef] : [])
+  ]);
+  const tags = new Map<string, string>();
+  let stash: string | undefined;
+  let upstreamCommit: string | undefined;
+
+  for (const line of out.split(/\r?\n/)) {
+    const [ref, id] = line.trim().split(' ');
+    if (!ref || !id) continue;
+    if (ref === 'refs/stash') {
+      stash = id;
+    } else if (ref === upstreamRef) {
+      upstreamCommit = id;
+    } else if (ref.startsWith('refs/tags/')) {
+      tags.set(ref.slice('refs/tags/'.length), id);
+    }
+  }
+  return { upstreamCommit, tags, stash };
+}
+
+/**
+ * Everything that happened between two snapshots of the same repository,
+ * oldest first. `lastOnBranch` is the last snapshot taken with a branch checked
+ * out: coming back to that branch from a detached HEAD (as a rebase does), the
+ * branch is diffed against it, so the rewrite is logged.
+ */
+export async function detectVcsChanges(
+  git: GitRunner,
+  prev: RepoSnapshot,
+  next: RepoSnapshot,
+  lastOnBranch?: RepoSnapshot
+): Promise<VcsChange[]> {
+  const changes: VcsChange[] = [];
+  const branch = next.branch ?? '(detached)';
+  const base = { branch, commits: [] as CommitInfo[], snapshot: next };
+
+  // Back on the branch HEAD left for a detached HEAD: diff against the branch as it was then
+  const from = !prev.branch && next.branch && lastOnBranch?.branch === next.branch ? lastOnBranch : prev;
+  const switched = from.branch !== next.branch;
+  // A branch that moved while HEAD was detached was rebased, not checked out again
+  if (prev.branch !== next.branch && (from === prev || from.commit === next.commit)) {
+    changes.push({
+      ...base,
+      kind: 'CHECKOUT',
+      from: prev.branch ?? (shortHash(prev.commit) || '(none)'),
+      to: next.branch ?? (shortHash(next.commit) || '(none)'),
+      commits: next.commit ? await readCommits(git, ['-1', next.commit]) : []
+    });
+  }
+
+  // Commits pushed since the last snapshot are local commits, even though they are on the upstream now
+  const pushed = !switched ? await readPushedCommits(git, from, next) : new Set<string>();
+
+  // A branch switch moves HEAD to commits that are not new; only diff within a branch.
+  if (!switched && from.commit && next.commit && from.commit !== next.commit) {
+    if (await isAncestor(git, from.commit, next.commit)) {
+      changes.push(...(await classifyNewCommits(git, from.commit, next, base, pushed)));
+    } else {
+      // Rebase, amend or reset: the old HEAD is not in the new history.
+      const mergeBase = await git(['merge-base', from.commit, next.commit]).then(s => s.trim(), () => '');
+      const range = mergeBase ? `${mergeBase}..${next.commit}` : next.commit;
+      const commits = await readCommits(git, ['--reverse', range]);
+      changes.push({ ...base, kind: 'REWRITE', from: from.commit, to: next.commit, commits });
+    }
+  }
+
+  if (pushed.size > 0) {
+    changes.push({ ...base, kind: 'PUSH', count: pushed.size });
+  } else if (!switched && from.commit === next.commit && next.upstream && from.ahead > 0 && next.ahead === 0) {
+    // No reflog for the upstream: ahead dropping to zero without HEAD moving means the branch was pushed.
+    changes.push({ ...base, kind: 'PUSH', count: from.ahead });
+  }
+
+  for (const [tag, id] of next.tags) {
+    if (prev.tags.get(tag) === id) continue;
+    // Annotated tags point at a tag object; log the commit it tags.
+    const commits = await readCommits(git, ['-1', `${id}^{commit}`]).catch(() => []);
+    changes.push({ ...base, kind: 'TAG', tag, commits });
+  }
+
+  if (next.stash && next.stash !== prev.stash) {
+    const message = await git(['log', '-1', '--format=%gs', '-g', 'refs/stash']).then(
+      s => s.trim(),
+      () => ''
+    );
+    changes.push({ ...base, kind: 'STASH', message: message || 'stash' });
+  }
+
+  return changes;
+}
+
+/** e.g. `- 09:12 [COMMIT] [[projects/x/home]] on branch main "Fix parser" (3f2c9d1)` */
+export function formatDailyLine(
+  change: VcsChange,
+  timeStr: string,
+  projectRef: string,
+  formatText: TextFormatter = asIs
+): string {
+  const prefix = `- ${timeStr} [${change.kind}] ${projectRef}`;
+  const last = change.commits[change.commits.length - 1];
+  const upstream = change.snapshot.upstream;
+
+  switch (change.kind) {
+    case 'COMMIT':
+    case 'MERGE':
+      return (
+        `${prefix} on branch ${change.branch} "${formatText(last?.subject ?? '')}" ` +
+        `(${shortHash(last?.hash)}, ahead ${change.snapshot.ahead}, behind ${change.snapshot.behind})`
+      );
+    case 'PULL':
+      return (
+        `${prefix} ${change.commits.length} commit(s) into ${change.branch}` +
+        `${upstream ? ` from ${upstream}` : ''} (now at ${shortHash(last?.hash)})`
+      );
+    case 'CHECKOUT':
+      return `${prefix} switched from ${change.from} to ${change.to}`;
+    case 'REWRITE':
+      return (
+        `${prefix} on branch ${change.branch} rewrote history ` +
+        `${shortHash(change.from)} → ${shortHash(change.to)} (${change.commits.length} new commit(s))`
+      );
+    case 'TAG':
+      return `${prefix} tagged ${shortHash(last?.hash)} as ${change.tag}`;
+    case 'PUSH':
+      return `${prefix} pushed ${change.count} commit(s) from ${change.branch}${upstream ? ` to ${upstream}` : ''}`;
+    case 'STASH':
+      return `${prefix} on branch ${change.branch} "${change.message}"`;
+  }
+}
+
+/** The vcs.md entry: a sub-heading with the details of the change below it. */
+export function formatVcsPageEntry(
+  change: VcsChange,
+  dateStr: string,
+  timeStr: string,
+  dailySlug: string,
+  formatText: TextFormatter = asIs
+): string[] {
+  const lines = [`## ${dateStr} ${timeStr} [${change.kind}] (${change.branch})`, ''];
+  const last = change.commits[change.commits.length - 1];
+
+  switch (change.kind) {
+    case 'COMMIT':
+    case 'MERGE':
+      if (last) {
+        lines.push(`- Commit: \`${shortHash(last.hash)}\``);
+        lines.push(`- Message: ${formatText(last.subject)}`);
+        lines.push(`- Author: ${last.author}`);
+        if (change.kind === 'MERGE') {
+          lines.push(`- Parents: ${last.parents.map(p => `\`${shortHash(p)}\``).join(', ')}`);
+        }
+      }
+      lines.push(`- Ahead: ${change.snapshot.ahead} Behind: ${change.snapshot.behind}`);
+      break;
+    case 'PULL':
+      if (change.snapshot.upstream) {
+        lines.push(`- Upstream: ${change.snapshot.upstream}`);
+      }
+      lines.push(`- Commits: ${change.commits.length}`);
+      lines.push(...change.commits.map(c => `  - \`${shortHash(c.hash)}\` ${formatText(c.subject)} (${c.author})`));
+      break;
+    case 'CHECKOUT':
+      lines.push(`- From: ${change.from}`);
+      lines.push(`- To: ${change.to}`);
+      if (last) {
+        lines.push(`- Commit: \`${shortHash(last.hash)}\` ${formatText(last.subject)}`);
+      }
+      break;
+    case 'REWRITE':
+      lines.push(`- Before: \`${shortHash(change.from)}\``);
+      lines.push(`- After: \`${shortHash(change.to)}\``);
+      lines.push(`- New commits: ${change.commits.length}`);
+      lines.push(...change.commits.map(c => `  - \`${shortHash(c.hash)}\` ${formatText(c.subject)}`));
+      break;
+    case 'TAG':
+      lines.push(`- Tag: \`${change.tag}\``);
+      if (last) {
+        lines.push(`- Commit: \`${shortHash(last.hash)}\` ${formatText(last.subject)}`);
+      }
+      break;
+    case 'PUSH':
+      lines.push(`- Pushed: ${change.count} commit(s)`);
+      if (change.snapshot.upstream) {
+        lines.push(`- Upstream: ${change.snapshot.upstream}`);
+      }
+      break;
+    case 'STASH':
+      lines.push(`- Stash: \`${change.message}\``);
+      break;
+  }
+
+  lines.push(`- Journal: [[${dailySlug}]]`);
+  return lines;
+}
+
+export function shortHash(hash: string | undefined): string {
+  return hash ? hash.slice(0, 7) : '';
+}
+
+/** `git log` with the given arguments, parsed. */
+export async function readCommits(git: GitRunner, args: string[]): Promise<CommitInfo[]> {
+  const out = await git(['log', `--format=${LOG_FORMAT}`, ...args]);
+  return out
+    .split(RECORD_SEP)
+    .map(record => record.replace(/^\s+/, ''))
+    .filter(Boolean)
+    .map(record => {
+      const [hash, parents, author, date, subject] = record.split(FIELD_SEP);
+      return {
+        hash,
+        parents: parents ? parents.split(' ') : [],
+        author,
+        date,
+        subject: (subject ?? '').trim()
+      };
+    });
+}
+
+/* ---------- internals ---------- */
+
+// New commits on the same branch: merges, commits made here, and commits pulled from upstream.
+async function classifyNewCommits(
+  git: GitRunner,
+  prevCommit: string,
+  next: RepoSnapshot,
+  base: Pick<VcsChange, 'branch' | 'commits' | 'snapshot'>,
+  pushed: Set<string>
+): Promise<VcsChange[]> {
+  const commits = await readCommits(git, ['--reverse', `${prevCommit}..${next.commit}`]);
+
+  // Commits already on the upstream arrived with a pull, unless we pushed them; the rest were made here.
+  let upstreamCommits = new Set<string>();
+  if (next.upstream) {
+    const out = await git(['rev-list', `${prevCommit}..${next.upstream}`]).catch(() => '');
+    upstreamCommits = new Set(out.split(/\s+/).filter(hash => hash && !pushed.has(hash)));
+  }
+
+  // Commits brought in by a merge's other parents were logged on their own branch.
+  const firstParent = new Set(
+    (await git(['rev-list', '--first-parent', `${prevCommit}..${next.commit}`])).split(/\s+/).filter(Boolean)
+  );
+
+  const pulled = commits.filter(c => upstreamCommits.has(c.hash));
+  const local = commits.filter(c => !upstreamCommits.has(c.hash) && firstParent.has(c.hash));
+
+  const changes: VcsChange[] = [];
+  if (pulled.length > 0) {
+    changes.push({ ...base, kind: 'PULL', commits: pulled });
+  }
+  for (const commit of local) {
+    changes.push({ ...base, kind: commit.parents.length > 1 ? 'MERGE' : 'COMMIT', commits: [commit] });
+  }
+  return changes;
+}
+
+/**
+ * The commits pushed to the upstream between two snapshots, from the reflog of
+ * its remote-tracking ref: each "update by push" entry added old..new.
+ */
+async function readPushedCommits(git: GitRunner, prev: RepoSnapshot, next: RepoSnapshot): Promise<Set<string>> {
+  const pushed = new Set<string>();
+  if (
+    !next.upstream ||
+    next.upstream !== prev.upstream ||
+    !prev.upstreamCommit ||
+    !next.upstreamCommit ||
+    prev.upstreamCommit === next.upstreamCommit
+  ) {
+    return pushed;
+  }
+
+  const out = await git(['log', '-g', '-n', '100', '--format=%H%x1f%gs', `refs/remotes/${next.upstream}`]).catch(() => '');
+  const entries = out
+    .split(/\r?\n/)
+    .filter(Boolean)
+    .map(line => line.split(FIELD_SEP));
+  // Newest first; each entry moved the ref from the entry below it
+  for (let i = 0; i + 1 < entries.length && entries[i][0] !== prev.upstreamCommit; i++) {
+    const [to, subject] = entries[i];
+    if (subject.startsWith('update by push')) {
+      const range = await git(['rev-list', `${entries[i + 1][0]}..${to}`]).catch(() => '');
+      range.split(/\s+/).filter(Boolean).forEach(hash => pushed.add(hash));
+    }
+  }
+  return pushed;
+}
+
+async function isAncestor(git: GitRunner, ancestor: string, descendant: string): Promise<boolean> {
+  try {
+    await git(['merge-base', '--is-ancestor', ancestor, descendant]);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,200 @@
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { AsyncLocalStorage } from 'async_hooks';
+
+/*
+ * Write coordination for the notes folder.
+ *
+ * Every window of every project appends to the same daily note, home.md and
+ * index.md files, and the notes auto-sync stages them with `git add`. All of
+ * that goes through withNotesLock(), which
+ *
+ *   - queues writes within this window, and
+ *   - holds <notesRoot>/.foam-central/write.lock (created with O_EXCL) while
+ *     the write runs, so other windows wait for it.
+ *
+ * A lock left behind by a crashed window is taken over once its owner process
+ * is gone, or once it has not been refreshed for STALE_LOCK_MS.
+ */
+
+interface LockOwner {
+  token: string;
+  host: string;
+  pid: number;
+  label: string;
+  acquired: number;   // epoch ms
+}
+
+export class WriteLockTimeoutError extends Error {
+  constructor(readonly lockPath: string, readonly owner: LockOwner | undefined) {
+    super(
+      `Timed out waiting for the notes write lock at ${lockPath}` +
+      (owner ? ` (held by ${owner.host} pid ${owner.pid} for "${owner.label}")` : '')
+    );
+    this.name = 'WriteLockTimeoutError';
+  }
+}
+
+export const LOCK_FILE_NAME = 'write.lock';
+
+// The holder touches the lock this often; a lock older than STALE_LOCK_MS is abandoned.
+const LOCK_REFRESH_MS = 10 * 1000;
+const STALE_LOCK_MS = 60 * 1000;
+const ACQUIRE_TIMEOUT_MS = 90 * 1000;
+const RETRY_DELAY_MS = 100;
+
+let lockPath: string | undefined;
+let queue: Promise<unknown> = Promise.resolve();
+const heldBy = new AsyncLocalStorage<string>();
+
+/** Enables the cross-window lock; until then writes are only queued in-process. */
+export async function initWriteCoordinator(notesFolder: string): Promise<void> {
+  const dir = path.join(notesFolder, '.foam-central');
+  await fsp.mkdir(dir, { recursive: true });
+
+  // The lock must never end up in a notes commit.
+  const gitignore = path.join(dir, '.gitignore');
+  try {
+    await fsp.writeFile(gitignore, '*.lock\n*.lock.*\n', { encoding: 'utf8', flag: 'wx' });
+  } catch (err: any) {
+    if (err?.code !== 'EEXIST') throw err;
+  }
+
+  lockPath = path.join(dir, LOCK_FILE_NAME);
+}
+
+/**
+ * Runs `fn` while holding the notes write lock. Calls nested inside `fn` run
+ * straight away (they already hold the lock).
+ */
+export function withNotesLock<T>(label: string, fn: () => Promise<T>): Promise<T> {
+  if (heldBy.getStore() !== undefined) {
+    return fn();
+  }
+
+  const run = queue.then(() => heldBy.run(label, () => runLocked(label, fn)));
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+/** Whether the caller runs inside withNotesLock() (and must not wait for another write). */
+export function holdsNotesLock(): boolean {
+  return heldBy.getStore() !== undefined;
+}
+
+/* ---------- internals ---------- */
+
+async function runLocked<T>(label: string, fn: () => Promise<T>): Promise<T> {
+  const file = lockPath;
+  if (!file) {
+    return fn();
+  }
+
+  const owner = await acquire(file, label);
+  const refresh = setInterval(() => {
+    const now = new Date();
+    fsp.utimes(file, now, now).catch(() => undefined);
+  }, LOCK_REFRESH_MS);
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(refresh);
+    await release(file, owner);
+  }
+}
+
+async function acquire(file: string, label: string): Promise<LockOwner> {
+  const owner: LockOwner = {
+    token: `${os.hostname()}-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    host: os.hostname(),
+    pid: process.pid,
+    label,
+    acquired: Date.now()
+  };
+  const deadline = Date.now() + ACQUIRE_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      await fsp.writeFile(file, JSON.stringify(owner), { encoding: 'utf8', flag: 'wx' });
+      return owner;
+    } catch (err: any) {
+      if (err?.code !== 'EEXIST') throw err;
+    }
+
+    const current = await readOwner(file);
+    if (await isStale(file, current)) {
+      await breakLock(file, current);
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new WriteLockTimeoutError(file, current);
+    }
+    await delay(RETRY_DELAY_MS);
+  }
+}
+
+async function release(file: string, owner: LockOwner): Promise<void> {
+  // Only remove the lock if it is still ours (it may have been broken as stale).
+  const current = await readOwner(file);
+  if (current?.token === owner.token) {
+    await fsp.unlink(file).catch(() => undefined);
+  }
+}
+
+async function readOwner(file: string): Promise<LockOwner | undefined> {
+  try {
+    const raw = JSON.parse(await fsp.readFile(file, 'utf8'));
+    return raw && typeof raw.token === 'string' ? (raw as LockOwner) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function isStale(file: string, owner: LockOwner | undefined): Promise<boolean> {
+  let mtime: number;
+  try {
+    mtime = (await fsp.stat(file)).mtimeMs;
+  } catch {
+    return false; // already gone, just retry
+  }
+
+  if (Date.now() - mtime > STALE_LOCK_MS) {
+    return true;
+  }
+
+  // A dead owner on this machine can be detected straight away.
+  if (owner && owner.host === os.hostname()) {
+    try {
+      process.kill(owner.pid, 0);
+    } catch (err: any) {
+      return err?.code === 'ESRCH';
+    }
+  }
+  return false;
+}
+
+/**
+ * Moves the stale lock aside and deletes it. If another window replaced it in
+ * the meantime, that (live) lock is put back.
+ */
+async function breakLock(file: string, stale: LockOwner | undefined): Promise<void> {
+  const aside = `${file}.${process.pid}-${Date.now()}`;
+  try {
+    await fsp.rename(file, aside);
+  } catch {
+    return; // someone else got there first
+  }
+
+  const moved = await readOwner(aside);
+  if (moved && moved.token !== stale?.token) {
+    await fsp.link(aside, file).catch(() => undefined);
+  }
+  await fsp.unlink(aside).catch(() => undefined);
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}